@@ -1,15 +1,45 @@
 
-import React, { useEffect, useState, useMemo } from 'react';
-import { ProjectAnalysis, ProjectStatus, RotLevel } from './types';
-import { fetchProjects, analyzeProjects, updateProjectStatus, updateProjectDetails } from './services/dataService';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
+import { DeadlineRisk, Project, ProjectAnalysis, ProjectDetails, ProjectStatus, RotLevel } from './types';
+import { analyzeProjects, effectiveRotLevel, generateProjectId } from './services/dataService';
+import { getProjectRepository, getStoredBackend, setStorageBackend, StorageBackend } from './services/projectRepository';
 import { initGoogleClient, handleSignOut } from './services/authService';
 import { ProjectCard } from './components/ProjectCard';
 import { AIInsights } from './components/AIInsights';
 import { LoginScreen } from './components/LoginScreen';
 import { NewProjectModal } from './components/NewProjectModal';
+import { SheetSettings } from './components/SheetSettings';
+import { ConflictDialog } from './components/ConflictDialog';
+import { UndoToast } from './components/UndoToast';
+import { BulkActionBar, BulkSummary } from './components/BulkActionBar';
+import { BulkAction, applyBulkAction } from './services/bulkActions';
+import { AssistantAction } from './services/assistantActions';
+import { RotPolicySettings } from './components/RotPolicySettings';
+import { InsightsPanel } from './components/InsightsPanel';
+import { generatePortfolioInsights } from './services/geminiService';
+import { clearCachedInsights, loadCachedInsights, portfolioFingerprint, saveCachedInsights } from './services/insightsCache';
+import { RotPolicy, loadRotPolicy } from './services/rotPolicy';
+import { MappingIssue, ProjectIdError, SheetMappingError } from './services/sheetConfig';
+import { assignProjectIds } from './services/sheetsRepository';
+import { ProjectConflictError } from './services/repositoryErrors';
+import {
+  QueuedMutation,
+  ReplayResult,
+  applyQueuedMutations,
+  cacheProjects,
+  isOffline,
+  listQueuedMutations,
+  loadCachedProjects,
+} from './services/offlineQueue';
+import { useOfflineQueue } from './hooks/useOfflineQueue';
 
 type SortOrder = 'DEFAULT' | 'FRESH_FIRST' | 'NEGLECTED_FIRST' | 'ABANDONED_FIRST' | 'COMPLETED_FIRST';
 
+// One reversible change: the project before and after, lastTouched included
+type UndoEntry = { before: Project; after: Project; label: string };
+
+const UNDO_LIMIT = 50;
+
 const App: React.FC = () => {
   const getStoredId = () => {
     // In production, ALWAYS use the Netlify environment variable
@@ -26,6 +56,7 @@ const App: React.FC = () => {
   };
 
   const [clientId, setClientId] = useState<string>(getStoredId());
+  const [backend, setBackend] = useState<StorageBackend>(getStoredBackend());
   const [isSignedIn, setIsSignedIn] = useState(false);
   const [isRestoringSession, setIsRestoringSession] = useState(true);
   const [projects, setProjects] = useState<ProjectAnalysis[]>([]);
@@ -33,6 +64,36 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<SortOrder>('DEFAULT');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isSheetSettingsOpen, setIsSheetSettingsOpen] = useState(false);
+  const [mappingIssues, setMappingIssues] = useState<MappingIssue[]>([]);
+  const [canAssignIds, setCanAssignIds] = useState(false); // The sheet needs its one-time ID migration
+  const [conflict, setConflict] = useState<ProjectConflictError | null>(null);
+  const [conflictSeq, setConflictSeq] = useState<number | null>(null); // Queued change the conflict came from
+  const [rotPolicy, setRotPolicy] = useState<RotPolicy>(loadRotPolicy());
+  const [isRotSettingsOpen, setIsRotSettingsOpen] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [toast, setToast] = useState<{ message: string; action: 'undo' | 'redo' } | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [isInsightsOpen, setIsInsightsOpen] = useState(false);
+  const [isGeneratingInsights, setIsGeneratingInsights] = useState(false);
+  const [insightsError, setInsightsError] = useState<string | null>(null);
+  const [insightsRevision, setInsightsRevision] = useState(0); // Bumped when new insights are cached
+
+  const handleReplayed = (result: ReplayResult) => {
+    if (result.conflict) {
+      setConflict(result.conflict);
+      setConflictSeq(result.conflictSeq ?? null);
+    }
+    if (result.errors.length > 0) {
+      setError(result.errors.join(' '));
+    }
+    if (result.replayed > 0 && !result.conflict) {
+      loadData();
+    }
+  };
 
   const handleSaveConfig = (newId: string) => {
     if (!newId) {
@@ -48,7 +109,30 @@ const App: React.FC = () => {
     }
   };
 
+  const clearUndoHistory = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+    setToast(null);
+  };
+
+  const handleSelectBackend = (next: StorageBackend) => {
+    setStorageBackend(next);
+    setBackend(next);
+    setProjects([]);
+    clearUndoHistory();
+    exitSelection();
+    if (next !== 'sheets') {
+      setIsRestoringSession(false);
+    }
+  };
+
   useEffect(() => {
+    // Local backends need no Google session
+    if (backend !== 'sheets') {
+      setIsRestoringSession(false);
+      return;
+    }
+
     if (!clientId) {
       setIsRestoringSession(false);
       return;
@@ -77,101 +161,429 @@ const App: React.FC = () => {
       }
     };
     initialize();
-  }, [clientId]);
+  }, [clientId, backend]);
+
+  const isReady = backend !== 'sheets' || isSignedIn;
+
+  const { isOnline, pendingCount, queueMutation, discardMutation, replay } = useOfflineQueue({
+    backend,
+    enabled: isReady,
+    onReplayed: handleReplayed,
+  });
 
   useEffect(() => {
-    if (isSignedIn) {
+    if (isReady) {
       loadData();
     }
-  }, [isSignedIn]);
+  }, [isReady, backend]);
 
   const loadData = async () => {
     setLoading(true);
     setError(null);
+    setMappingIssues([]);
+    setCanAssignIds(false);
     try {
-      const rawProjects = await fetchProjects();
-      const analyzed = analyzeProjects(rawProjects);
-      setProjects(analyzed);
+      const rawProjects = await getProjectRepository().fetchProjects();
+      cacheProjects(backend, rawProjects);
+      // Changes still waiting in the offline queue win over what the backend returned
+      const pending = await listQueuedMutations(backend).catch(() => []);
+      setProjects(analyzeProjects(applyQueuedMutations(rawProjects, pending), rotPolicy));
     } catch (err: any) {
       console.error(err);
-      setError(err.message || "Failed to load project data.");
+      const cached = isOffline() ? loadCachedProjects(backend) : null;
+      if (cached) {
+        const pending = await listQueuedMutations(backend).catch(() => []);
+        setProjects(analyzeProjects(applyQueuedMutations(cached, pending), rotPolicy));
+      } else if (err instanceof ProjectIdError) {
+        setMappingIssues(err.issues);
+        setCanAssignIds(err.problems.migratable);
+        setError(err.problems.migratable
+          ? "Some rows have no project ID of their own. Assign IDs to write one into each of them."
+          : "The project ID column holds something other than project IDs.");
+      } else if (err instanceof SheetMappingError) {
+        setMappingIssues(err.issues);
+        setError("The sheet's columns no longer match the configured mapping.");
+      } else {
+        setError(err.message || "Failed to load project data.");
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const handleStatusChange = async (id: string, newStatus: ProjectStatus) => {
+  const handleAssignIds = async () => {
+    setLoading(true);
+    try {
+      await assignProjectIds();
+      await loadData();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to assign project IDs.");
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Run a write, or queue it for replay when the browser is offline.
+   * Resolves to the project as stored, or null when the change was queued.
+   * A written project replaces the optimistic one, so the version later
+   * edits are checked against is the one actually stored.
+   */
+  const writeOrQueue = async (write: () => Promise<Project>, mutation: QueuedMutation): Promise<Project | null> => {
+    if (!isOffline()) {
+      try {
+        const stored = await write();
+        replaceProject(stored);
+        return stored;
+      } catch (err) {
+        if (!isOffline()) throw err;
+      }
+    }
+    await queueMutation(mutation);
+    return null;
+  };
+
+  // Resolves to false when the change was not saved; the failure is already shown
+  const handleStatusChange = async (id: string, newStatus: ProjectStatus): Promise<boolean> => {
+    const current = projects.find(p => p.project.id === id)?.project;
+    if (!current) return false;
     const nowStr = new Date().toISOString();
     setProjects(prev => prev.map(p => {
       if (p.project.id === id) {
-        return { 
-          project: { ...p.project, status: newStatus, lastTouched: nowStr },
-          daysSinceTouch: 0,
-          rotLevel: RotLevel.FRESH 
-        };
+        const [analysis] = analyzeProjects([{ ...p.project, status: newStatus, lastTouched: nowStr }], rotPolicy);
+        return analysis;
       }
       return p;
     }));
 
+    const changed = { ...current, status: newStatus, lastTouched: nowStr };
+
     try {
-        await updateProjectStatus(id, newStatus);
+        const stored = await writeOrQueue(
+            () => getProjectRepository().updateProjectStatus(id, newStatus),
+            { kind: 'save', project: changed, base: current }
+        );
+        recordChange(
+            current,
+            stored || changed,
+            newStatus === ProjectStatus.ARCHIVED ? `Archived "${current.name}"` : `"${current.name}" set to ${newStatus}`
+        );
+        return true;
     } catch (err: any) {
+        if (err instanceof ProjectConflictError) {
+            setConflict(err);
+            return false;
+        }
         console.error("Write failed", err);
         setError(err.message || "Failed to update status in Sheet.");
         loadData();
+        return false;
     }
   };
 
-  const handleProjectUpdate = async (id: string, updates: { name: string, links: string, tags: string, owner: string }) => {
+  const handleProjectUpdate = async (id: string, updates: ProjectDetails): Promise<boolean> => {
+    const current = projects.find(p => p.project.id === id)?.project;
+    if (!current) return false;
     setProjects(prev => prev.map(p => {
         if (p.project.id === id) {
-            return {
-                ...p,
-                project: { ...p.project, ...updates }
-            };
+            const [analysis] = analyzeProjects([{ ...p.project, ...updates }], rotPolicy);
+            return analysis;
         }
         return p;
     }));
 
     try {
-        await updateProjectDetails(id, updates);
+        const changed = { ...current, ...updates };
+        const stored = await writeOrQueue(
+            () => getProjectRepository().updateProjectDetails(id, updates),
+            { kind: 'save', project: changed, base: current }
+        );
+        recordChange(current, stored || changed, `Updated "${current.name}"`);
+        return true;
     } catch (err: any) {
+        if (err instanceof ProjectConflictError) {
+            setConflict(err);
+            return false;
+        }
         console.error("Update failed", err);
         setError(err.message || "Failed to update project details.");
         loadData();
+        return false;
+    }
+  };
+
+  const recordChange = (before: Project, after: Project, label: string) => {
+    setUndoStack(prev => [...prev.slice(-(UNDO_LIMIT - 1)), { before, after, label }]);
+    setRedoStack([]);
+    setToast({ message: label, action: 'undo' });
+  };
+
+  /**
+   * Write one side of an undo entry back through the repository, checked
+   * against the other side. Resolves to the version now in place, or null
+   * when the write did not happen.
+   */
+  const restoreVersion = async (target: Project, from: Project): Promise<Project | null> => {
+    replaceProject(target);
+    try {
+        const stored = await writeOrQueue(
+            () => getProjectRepository().saveProject(target, { base: from }),
+            { kind: 'save', project: target, base: from }
+        );
+        return stored || target;
+    } catch (err: any) {
+        if (err instanceof ProjectConflictError) {
+            setConflict(err);
+            return null;
+        }
+        console.error("Undo failed", err);
+        setError(err.message || "Failed to restore the previous version.");
+        loadData();
+        return null;
+    }
+  };
+
+  const handleUndo = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    setUndoStack(prev => prev.slice(0, -1));
+    setToast(null);
+    // The entry keeps what was stored, so the next redo is checked against it
+    const restored = await restoreVersion(entry.before, entry.after);
+    if (restored) {
+      setRedoStack(prev => [...prev, { ...entry, before: restored }]);
+      setToast({ message: `Undone: ${entry.label}`, action: 'redo' });
+    }
+  };
+
+  const handleRedo = async () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    setRedoStack(prev => prev.slice(0, -1));
+    setToast(null);
+    const restored = await restoreVersion(entry.after, entry.before);
+    if (restored) {
+      setUndoStack(prev => [...prev, { ...entry, after: restored }]);
+      setToast({ message: `Redone: ${entry.label}`, action: 'undo' });
+    }
+  };
+
+  const undoShortcutsRef = useRef({ handleUndo, handleRedo });
+  undoShortcutsRef.current = { handleUndo, handleRedo };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) undoShortcutsRef.current.handleRedo();
+      else undoShortcutsRef.current.handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Shift-click selects everything between the last clicked card and this one, in display order
+  const handleSelect = (id: string, extendRange: boolean) => {
+    const order = sortedProjects.map(p => p.project.id);
+    if (extendRange && selectionAnchor && order.includes(selectionAnchor)) {
+      const [from, to] = [order.indexOf(selectionAnchor), order.indexOf(id)].sort((a, b) => a - b);
+      const range = order.slice(from, to + 1);
+      setSelectedIds(prev => Array.from(new Set([...prev, ...range])));
+    } else {
+      setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    }
+    setSelectionAnchor(id);
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    setSelectionAnchor(null);
+  };
+
+  /**
+   * Apply one action to every selected project in a single bulk save.
+   * Projects that failed are put back to how they were.
+   */
+  const handleBulkAction = async (action: BulkAction): Promise<BulkSummary> => {
+    const now = new Date().toISOString();
+    const originals = projects.map(p => p.project).filter(p => selectedIds.includes(p.id));
+    const updated = originals.map(p => applyBulkAction(p, action, now));
+    const nameOf = (id: string) => originals.find(p => p.id === id)?.name || id;
+
+    const showVersions = (versions: Project[]) => {
+      const byId = new Map(analyzeProjects(versions, rotPolicy).map(a => [a.project.id, a]));
+      setProjects(prev => prev.map(p => byId.get(p.project.id) || p));
+    };
+    showVersions(updated);
+
+    if (isOffline()) {
+      for (const project of updated) {
+        await queueMutation({ kind: 'save', project, base: originals.find(p => p.id === project.id)! });
+      }
+      return { saved: updated.length, failed: [], queued: true };
+    }
+
+    let failed: { projectId: string; message: string }[];
+    let saved: Project[];
+    try {
+      const result = await getProjectRepository().saveProjects(updated);
+      failed = result.failed;
+      saved = result.saved;
+    } catch (err: any) {
+      console.error("Bulk update failed", err);
+      failed = updated.map(p => ({ projectId: p.id, message: err.message || 'Save failed' }));
+      saved = [];
+    }
+
+    // Stored versions for the saved projects, the originals back for the failed ones
+    showVersions([...saved, ...originals.filter(p => failed.some(f => f.projectId === p.id))]);
+    return { saved: saved.length, failed: failed.map(f => ({ name: nameOf(f.projectId), message: f.message })), queued: false };
+  };
+
+  // Throws so the modal can show the failure; offline creations are queued and shown right away
+  const handleCreateProject = async (details: ProjectDetails) => {
+    const project: Project = {
+      ...details,
+      id: generateProjectId(),
+      lastTouched: new Date().toISOString(),
+      status: ProjectStatus.NEW,
+    };
+    const stored = await writeOrQueue(
+      async () => {
+        await getProjectRepository().createProject(details, project.id);
+        return project;
+      },
+      { kind: 'create', project }
+    );
+    setIsAddModalOpen(false);
+    if (!stored) {
+      setProjects(prev => [...prev, ...analyzeProjects([project], rotPolicy)]);
+    } else {
+      loadData();
+    }
+  };
+
+  // Changes the assistant proposed and the user confirmed; creation failures throw
+  const handleAssistantAction = async (action: AssistantAction): Promise<boolean> => {
+    switch (action.kind) {
+      case 'status':
+        return handleStatusChange(action.projectId, action.status);
+      case 'details':
+        return handleProjectUpdate(action.projectId, action.updates);
+      case 'create':
+        await handleCreateProject(action.details);
+        return true;
+    }
+  };
+
+  // Swap in one project's latest version without refetching everything
+  const replaceProject = (project: Project) => {
+    const [analysis] = analyzeProjects([project], rotPolicy);
+    setProjects(prev => prev.map(p => p.project.id === project.id ? analysis : p));
+  };
+
+  // A queued change whose conflict was resolved is either written or given up on
+  const discardConflictingChange = async () => {
+    if (conflictSeq === null) return;
+    setConflictSeq(null);
+    await discardMutation(conflictSeq);
+  };
+
+  const handleAcceptTheirs = async () => {
+    if (conflict) replaceProject(conflict.theirs);
+    setConflict(null);
+    await discardConflictingChange();
+    replay();
+  };
+
+  const handleConflictWrite = async (resolved: Project) => {
+    setConflict(null);
+    replaceProject(resolved);
+    try {
+        replaceProject(await getProjectRepository().saveProject(resolved, { force: true }));
+        await discardConflictingChange();
+        replay();
+    } catch (err: any) {
+        console.error("Conflict resolution failed", err);
+        setError(err.message || "Failed to save the merged project.");
+        loadData();
     }
   };
 
+  const handleRotPolicySaved = (policy: RotPolicy) => {
+    setRotPolicy(policy);
+    setIsRotSettingsOpen(false);
+    setProjects(prev => analyzeProjects(prev.map(p => p.project), policy));
+  };
+
   const handleLogout = () => {
+    if (backend !== 'sheets') {
+      // Leaving a local backend returns to the Google sign-in screen
+      handleSelectBackend('sheets');
+      return;
+    }
     handleSignOut();
     setIsSignedIn(false);
     setProjects([]);
+    clearCachedInsights();
+    clearUndoHistory();
+    exitSelection();
   }
 
+  // Insights stay valid until any project's data changes
+  const insightsFingerprint = useMemo(() => portfolioFingerprint(projects.map(p => p.project)), [projects]);
+  const insights = useMemo(() => loadCachedInsights(insightsFingerprint), [insightsFingerprint, insightsRevision]);
+
+  const handleGenerateInsights = async () => {
+    const fingerprint = insightsFingerprint;
+    setIsGeneratingInsights(true);
+    setInsightsError(null);
+    try {
+      saveCachedInsights(fingerprint, await generatePortfolioInsights(projects));
+      setInsightsRevision(r => r + 1);
+    } catch (err: any) {
+      console.error("Insights failed", err);
+      setInsightsError(err.message || "Failed to generate insights.");
+    } finally {
+      setIsGeneratingInsights(false);
+    }
+  };
+
   const visibleProjects = useMemo(() => {
     return projects.filter(p => p.project.status !== ProjectStatus.ARCHIVED);
   }, [projects]);
 
+  const rowOrder = useMemo(() => {
+    return new Map(projects.map((p, index) => [p.project.id, index]));
+  }, [projects]);
+
   const sortedProjects = useMemo(() => {
     const isInactive = (p: ProjectAnalysis) => p.project.status === ProjectStatus.COMPLETED;
 
     return [...visibleProjects].sort((a, b) => {
         const aInactive = isInactive(a);
         const bInactive = isInactive(b);
+        // Deadlines count alongside rot, so an overdue project sorts with the abandoned ones
+        const aLevel = effectiveRotLevel(a);
+        const bLevel = effectiveRotLevel(b);
         let comparison = 0;
 
         switch (sortOrder) {
             case 'ABANDONED_FIRST':
                 if (aInactive && !bInactive) return 1;
                 if (!aInactive && bInactive) return -1;
-                if (a.rotLevel === RotLevel.ABANDONED && b.rotLevel !== RotLevel.ABANDONED) comparison = -1;
-                else if (b.rotLevel === RotLevel.ABANDONED && a.rotLevel !== RotLevel.ABANDONED) comparison = 1;
+                if (aLevel === RotLevel.ABANDONED && bLevel !== RotLevel.ABANDONED) comparison = -1;
+                else if (bLevel === RotLevel.ABANDONED && aLevel !== RotLevel.ABANDONED) comparison = 1;
                 break;
             case 'FRESH_FIRST':
                 if (aInactive && !bInactive) return 1;
                 if (!aInactive && bInactive) return -1;
-                if (a.rotLevel === RotLevel.FRESH && b.rotLevel !== RotLevel.FRESH) comparison = -1;
-                else if (b.rotLevel === RotLevel.FRESH && a.rotLevel !== RotLevel.FRESH) comparison = 1;
+                if (aLevel === RotLevel.FRESH && bLevel !== RotLevel.FRESH) comparison = -1;
+                else if (bLevel === RotLevel.FRESH && aLevel !== RotLevel.FRESH) comparison = 1;
                 break;
             case 'COMPLETED_FIRST':
                 if (aInactive && !bInactive) comparison = -1;
@@ -183,9 +595,10 @@ const App: React.FC = () => {
         }
 
         if (comparison !== 0) return comparison;
-        return parseInt(b.project.id, 10) - parseInt(a.project.id, 10);
+        // IDs are opaque, so "newest" follows the order the repository returned
+        return (rowOrder.get(b.project.id) ?? 0) - (rowOrder.get(a.project.id) ?? 0);
     });
-  }, [visibleProjects, sortOrder]);
+  }, [visibleProjects, sortOrder, rowOrder]);
 
   // Show loading spinner while restoring session
   if (isRestoringSession) {
@@ -200,13 +613,16 @@ const App: React.FC = () => {
       );
   }
 
-  if (!isSignedIn) {
-    return <LoginScreen hasValidConfig={!!clientId} onSaveConfig={handleSaveConfig} />;
+  if (!isReady) {
+    return <LoginScreen hasValidConfig={!!clientId} onSaveConfig={handleSaveConfig} onSelectBackend={handleSelectBackend} />;
   }
 
-  const abandonedCount = projects.filter(p => p.rotLevel === RotLevel.ABANDONED && p.project.status !== ProjectStatus.ARCHIVED).length;
-  const neglectedCount = projects.filter(p => p.rotLevel === RotLevel.NEGLECTED && p.project.status !== ProjectStatus.ARCHIVED).length;
-  const freshCount = projects.filter(p => p.rotLevel === RotLevel.FRESH && p.project.status !== ProjectStatus.ARCHIVED).length;
+  const openProjects = projects.filter(p => p.project.status !== ProjectStatus.ARCHIVED);
+  const abandonedCount = openProjects.filter(p => effectiveRotLevel(p) === RotLevel.ABANDONED).length;
+  const neglectedCount = openProjects.filter(p => effectiveRotLevel(p) === RotLevel.NEGLECTED).length;
+  const freshCount = openProjects.filter(p => effectiveRotLevel(p) === RotLevel.FRESH).length;
+  const overdueCount = openProjects.filter(p => p.deadlineRisk === DeadlineRisk.OVERDUE).length;
+  const dueSoonCount = openProjects.filter(p => p.deadlineRisk === DeadlineRisk.DUE_SOON).length;
 
   return (
     <div className="min-h-screen p-4 md:p-10 max-w-screen-2xl mx-auto relative text-slate-100 pb-32">
@@ -223,10 +639,12 @@ const App: React.FC = () => {
                 <div className="bg-slate-900 px-6 py-4 rounded-2xl shadow-xl border-l-8 border-rose-600 border-y border-r border-slate-800 min-w-[130px] flex flex-col items-center">
                     <div className="text-xs text-rose-300 font-black uppercase tracking-widest mb-1">Abandoned</div>
                     <div className="text-4xl font-black text-white">{abandonedCount}</div>
+                    {overdueCount > 0 && <div className="text-[10px] text-rose-300/70 font-black uppercase tracking-widest mt-1">{overdueCount} overdue</div>}
                 </div>
                 <div className="bg-slate-900 px-6 py-4 rounded-2xl shadow-xl border-l-8 border-orange-500 border-y border-r border-slate-800 min-w-[130px] flex flex-col items-center">
                     <div className="text-xs text-orange-300 font-black uppercase tracking-widest mb-1">Neglected</div>
                     <div className="text-4xl font-black text-white">{neglectedCount}</div>
+                    {dueSoonCount > 0 && <div className="text-[10px] text-orange-300/70 font-black uppercase tracking-widest mt-1">{dueSoonCount} due soon</div>}
                 </div>
                 <div className="bg-slate-900 px-6 py-4 rounded-2xl shadow-xl border-l-8 border-sky-500 border-y border-r border-slate-800 min-w-[130px] flex flex-col items-center">
                     <div className="text-xs text-sky-300 font-black uppercase tracking-widest mb-1">Fresh</div>
@@ -234,8 +652,24 @@ const App: React.FC = () => {
                 </div>
             </div>
             
+            {(!isOnline || pendingCount > 0) && (
+              <div className={`text-sm font-bold uppercase tracking-widest px-4 py-2 rounded-lg border ${isOnline ? 'text-amber-300 bg-amber-950/40 border-amber-900' : 'text-slate-300 bg-slate-900 border-slate-700'}`}>
+                  {isOnline ? 'Syncing' : 'Offline'}{pendingCount > 0 && ` · ${pendingCount} pending`}
+              </div>
+            )}
+            <button onClick={() => setIsInsightsOpen(true)} className="text-sm font-bold text-slate-500 hover:text-white transition-colors uppercase tracking-widest bg-slate-900/50 px-4 py-2 rounded-lg border border-slate-800">
+                Insights
+            </button>
+            <button onClick={() => setIsRotSettingsOpen(true)} className="text-sm font-bold text-slate-500 hover:text-white transition-colors uppercase tracking-widest bg-slate-900/50 px-4 py-2 rounded-lg border border-slate-800">
+                Thresholds
+            </button>
+            {backend === 'sheets' && (
+              <button onClick={() => setIsSheetSettingsOpen(true)} className="text-sm font-bold text-slate-500 hover:text-white transition-colors uppercase tracking-widest bg-slate-900/50 px-4 py-2 rounded-lg border border-slate-800">
+                  Sheet
+              </button>
+            )}
             <button onClick={handleLogout} className="text-sm font-bold text-slate-500 hover:text-white transition-colors uppercase tracking-widest bg-slate-900/50 px-4 py-2 rounded-lg border border-slate-800">
-                Sign Out
+                {backend === 'sheets' ? 'Sign Out' : 'Switch Storage'}
             </button>
         </div>
       </header>
@@ -257,18 +691,26 @@ const App: React.FC = () => {
             </div>
          </div>
 
-         <div className="flex items-center gap-3 bg-slate-900 p-1 rounded-xl border border-slate-800 self-start md:self-auto">
-            <span className="pl-3 text-[10px] font-black uppercase text-slate-500 tracking-widest">Sort By</span>
-            <select
-                value={sortOrder}
-                onChange={(e) => setSortOrder(e.target.value as SortOrder)}
-                className="appearance-none bg-slate-800 text-white text-xs font-bold rounded-lg pl-4 pr-10 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all cursor-pointer shadow-md min-w-[180px]"
+         <div className="flex items-center gap-3 self-start md:self-auto">
+            <button
+               onClick={() => isSelecting ? exitSelection() : setIsSelecting(true)}
+               className={`text-xs font-black uppercase tracking-widest px-4 py-3 rounded-xl border transition-colors ${isSelecting ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
             >
-                <option value="DEFAULT">Default (Newest)</option>
-                <option value="FRESH_FIRST">Freshness First</option>
-                <option value="ABANDONED_FIRST">Critical First</option>
-                <option value="COMPLETED_FIRST">Archive / Closed</option>
-            </select>
+               {isSelecting ? 'Selecting' : 'Select'}
+            </button>
+            <div className="flex items-center gap-3 bg-slate-900 p-1 rounded-xl border border-slate-800">
+               <span className="pl-3 text-[10px] font-black uppercase text-slate-500 tracking-widest">Sort By</span>
+               <select
+                   value={sortOrder}
+                   onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                   className="appearance-none bg-slate-800 text-white text-xs font-bold rounded-lg pl-4 pr-10 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all cursor-pointer shadow-md min-w-[180px]"
+               >
+                   <option value="DEFAULT">Default (Newest)</option>
+                   <option value="FRESH_FIRST">Freshness First</option>
+                   <option value="ABANDONED_FIRST">Critical First</option>
+                   <option value="COMPLETED_FIRST">Archive / Closed</option>
+               </select>
+            </div>
          </div>
       </div>
 
@@ -285,7 +727,20 @@ const App: React.FC = () => {
           <div className="bg-red-950/40 text-red-100 p-8 rounded-3xl border-2 border-red-900/50 flex flex-col items-center gap-4 max-w-2xl mx-auto mt-12 shadow-2xl">
             <h3 className="font-black text-2xl uppercase tracking-tighter">Connection Failed</h3>
             <p className="text-center text-lg text-red-200/70 mb-4 leading-relaxed">{error}</p>
-            <button onClick={loadData} className="px-10 py-4 bg-red-600 rounded-2xl hover:bg-red-500 font-black uppercase tracking-widest shadow-xl transition-all">Retry Link</button>
+            {mappingIssues.length > 0 && (
+              <ul className="list-disc pl-6 text-red-200/90 space-y-1 self-stretch">
+                {mappingIssues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+              </ul>
+            )}
+            <div className="flex gap-4">
+              {canAssignIds && (
+                <button onClick={handleAssignIds} className="px-10 py-4 bg-indigo-600 rounded-2xl hover:bg-indigo-500 font-black uppercase tracking-widest shadow-xl transition-all">Assign IDs</button>
+              )}
+              {mappingIssues.length > 0 && (
+                <button onClick={() => setIsSheetSettingsOpen(true)} className="px-10 py-4 bg-slate-800 rounded-2xl hover:bg-slate-700 font-black uppercase tracking-widest shadow-xl transition-all">Fix Mapping</button>
+              )}
+              <button onClick={loadData} className="px-10 py-4 bg-red-600 rounded-2xl hover:bg-red-500 font-black uppercase tracking-widest shadow-xl transition-all">Retry Link</button>
+            </div>
           </div>
         ) : (
           <>
@@ -296,6 +751,10 @@ const App: React.FC = () => {
                   analysis={analysis} 
                   onStatusChange={handleStatusChange}
                   onProjectUpdate={handleProjectUpdate}
+                  insight={insights?.projects[analysis.project.id]}
+                  selectable={isSelecting}
+                  selected={selectedIds.includes(analysis.project.id)}
+                  onSelect={handleSelect}
                 />
               ))}
             </div>
@@ -307,29 +766,78 @@ const App: React.FC = () => {
                 </div>
             )}
             
-            <AIInsights projects={projects} />
+            <AIInsights projects={projects} onAction={handleAssistantAction} />
             
             {/* Larger Floating Action Button */}
-            <button
-               onClick={() => setIsAddModalOpen(true)}
-               className="fixed bottom-10 left-10 w-20 h-20 bg-emerald-600 hover:bg-emerald-500 text-white rounded-full shadow-2xl shadow-emerald-950/50 z-[45] flex items-center justify-center transition-all hover:scale-110 active:scale-90 border-4 border-emerald-400/20"
-            >
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3} stroke="currentColor" className="w-10 h-10">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
-                </svg>
-            </button>
+            {!isSelecting && (
+              <button
+                 onClick={() => setIsAddModalOpen(true)}
+                 className="fixed bottom-10 left-10 w-20 h-20 bg-emerald-600 hover:bg-emerald-500 text-white rounded-full shadow-2xl shadow-emerald-950/50 z-[45] flex items-center justify-center transition-all hover:scale-110 active:scale-90 border-4 border-emerald-400/20"
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3} stroke="currentColor" className="w-10 h-10">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                  </svg>
+              </button>
+            )}
+
+            {isSelecting && (
+              <BulkActionBar
+                selectedCount={selectedIds.length}
+                onApply={handleBulkAction}
+                onSelectAll={() => setSelectedIds(sortedProjects.map(p => p.project.id))}
+                onClear={() => setSelectedIds([])}
+                onDone={exitSelection}
+              />
+            )}
             
             <NewProjectModal 
                 isOpen={isAddModalOpen} 
                 onClose={() => setIsAddModalOpen(false)}
-                onSuccess={() => {
-                    setIsAddModalOpen(false);
-                    loadData();
-                }}
+                onCreate={handleCreateProject}
             />
           </>
         )}
       </main>
+
+      <UndoToast
+        message={toast?.message || null}
+        actionLabel={toast?.action === 'redo' ? 'Redo' : 'Undo'}
+        onAction={toast?.action === 'redo' ? handleRedo : handleUndo}
+        onDismiss={() => setToast(null)}
+      />
+
+      <ConflictDialog
+        conflict={conflict}
+        onAcceptTheirs={handleAcceptTheirs}
+        onWrite={handleConflictWrite}
+      />
+
+      <InsightsPanel
+        isOpen={isInsightsOpen}
+        insights={insights}
+        projects={projects}
+        isGenerating={isGeneratingInsights}
+        error={insightsError}
+        onGenerate={handleGenerateInsights}
+        onClose={() => setIsInsightsOpen(false)}
+      />
+
+      <RotPolicySettings
+        isOpen={isRotSettingsOpen}
+        projects={projects.map(p => p.project)}
+        onClose={() => setIsRotSettingsOpen(false)}
+        onSaved={handleRotPolicySaved}
+      />
+
+      <SheetSettings
+        isOpen={isSheetSettingsOpen}
+        canReadSheet={backend === 'sheets' && isSignedIn}
+        onClose={() => setIsSheetSettingsOpen(false)}
+        onSaved={() => {
+          setIsSheetSettingsOpen(false);
+          loadData();
+        }}
+      />
     </div>
   );
 };
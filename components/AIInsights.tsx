@@ -1,24 +1,85 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ProjectAnalysis, ChatMessage } from '../types';
 import { 
+  ChatSession,
+  SpeechQueue,
   createProjectChatSession, 
+  createSpeechQueue,
   sendChatMessage, 
+  updateChatPortfolio,
   sendVoiceMessage,
+  StreamHandlers,
   speakText,
+  UnintelligibleAudioError,
+  UnsupportedAudioError,
   stopSpeaking,
+  transcribeVoice,
 } from '../services/geminiService';
-import { searchProjectsInSheet } from '../services/dataService';
-import { Chat } from "@google/genai";
+import { getProjectRepository } from '../services/projectRepository';
+import { ChatThread, listThreads, saveThread, threadTitle, threadToMarkdown } from '../services/chatThreads';
+import { ChatThreadList } from './ChatThreadList';
+import { VoiceRecoverySheet } from './VoiceRecoverySheet';
+import { AudioRecorderFallback } from './AudioRecorderFallback';
+import { VoiceSettings } from './VoiceSettings';
+import { loadSpeechSettings } from '../services/speechSettings';
+import { RecognitionSession, SpeechRecognitionError, isSpeechRecognitionAvailable, startRecognition } from '../services/speechRecognition';
+import { describeRotReport, parseVoiceCommand, voiceCommandAction } from '../services/voiceCommands';
+import { useMicrophonePermission } from '../hooks/useMicrophonePermission';
+import {
+  DEFAULT_VOICE_ACTIVITY,
+  VoiceActivityDetector,
+  VoiceActivityHandlers,
+  createVoiceActivityDetector,
+} from '../services/voiceActivity';
+import {
+  AssistantAction,
+  WRITE_TOOLS,
+  describeAssistantAction,
+  parseConfirmation,
+  resolveAssistantAction,
+} from '../services/assistantActions';
 
 interface AIInsightsProps {
   projects: ProjectAnalysis[];
+  /** Apply a change the user confirmed; resolves to false when it was not saved */
+  onAction: (action: AssistantAction) => Promise<boolean>;
 }
 
-type VoiceState = 'idle' | 'recording' | 'processing' | 'speaking';
+// Confirming: a change is waiting for a spoken (or tapped) yes or no
+type VoiceState = 'idle' | 'recording' | 'processing' | 'confirming' | 'speaking';
 
-export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
+// How long to listen for a spoken yes or no
+const CONFIRM_LISTEN_MS = 4000;
+
+// Longest single recording; the turn is sent when it runs out
+const MAX_RECORDING_MS = 60000;
+
+// Hands-free recordings with no speech this long are thrown away and restarted
+const HANDS_FREE_IDLE_MS = 15000;
+
+// Talking over the assistant needs to be louder and longer than its own voice leaking into the mic
+const BARGE_IN_VOICE_ACTIVITY = { thresholdScale: 2.5, minSpeechMs: 400 };
+
+const greeting = (): ChatMessage => ({
+  role: 'model',
+  text: 'Health assessment complete. Ask me anything about project status or archived history.',
+  timestamp: new Date(),
+});
+
+const newThreadInfo = () => ({ id: crypto.randomUUID(), createdAt: new Date().toISOString() });
+
+const downloadMarkdown = (thread: ChatThread) => {
+  const url = URL.createObjectURL(new Blob([threadToMarkdown(thread)], { type: 'text/markdown' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${thread.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').slice(0, 40) || 'conversation'}.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AIInsights: React.FC<AIInsightsProps> = ({ projects, onAction }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<ChatSession | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
@@ -26,29 +87,99 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
   // Voice state machine: idle → recording → processing → speaking → idle
   const [voiceState, setVoiceState] = useState<VoiceState>('idle');
   const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [pendingConfirmation, setPendingConfirmation] = useState<string | null>(null);
+  // The reply as it streams in; added to messages once complete
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [showThreads, setShowThreads] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
+  const [showFallbackRecorder, setShowFallbackRecorder] = useState(false);
+  const [handsFree, setHandsFree] = useState(false);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [replayingIndex, setReplayingIndex] = useState<number | null>(null);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const mic = useMicrophonePermission();
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const voiceTurnRef = useRef(false);
+  // The voice turn in flight; a barge-in or a newer turn aborts it
+  const turnRef = useRef<AbortController | null>(null);
+  const confirmResolverRef = useRef<((confirmed: boolean) => void) | null>(null);
+  const confirmQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const confirmRecorderRef = useRef<MediaRecorder | null>(null);
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
+  const threadRef = useRef(newThreadInfo());
+  // Messages as loaded from a saved thread, which need no saving
+  const loadedMessagesRef = useRef<ChatMessage[] | null>(null);
+  // Hands-free keeps one stream open for listening, recording and barge-in
+  const handsFreeStreamRef = useRef<MediaStream | null>(null);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  const heardSpeechRef = useRef(false);
+  const discardRecordingRef = useRef(false);
+  const voiceActivityRef = useRef<VoiceActivityHandlers>({});
+  const recognitionRef = useRef<RecognitionSession | null>(null);
 
-  // Initialize chat session when projects load
+  // Initialize chat session when projects load, resuming the latest thread;
+  // later edits refresh what it knows
   useEffect(() => {
-    if (projects.length > 0) {
+    if (projects.length === 0) {
+      setChatSession(null);
+      return;
+    }
+    if (chatSession) {
+      updateChatPortfolio(chatSession, projects);
+    } else {
       const session = createProjectChatSession(projects);
+      threadRef.current = newThreadInfo();
       setChatSession(session);
-      setMessages([{ 
-        role: 'model', 
-        text: 'Health assessment complete. Ask me anything about project status or archived history.', 
-        timestamp: new Date() 
-      }]);
+      setMessages([greeting()]);
+      listThreads()
+        .then(([latest]) => {
+          // Unless a new conversation already started
+          if (latest && session.history.length === 0) resumeThread(latest);
+        })
+        .catch(err => console.error("Failed to load saved conversations", err));
     }
   }, [projects]);
 
+  // Save the thread whenever it gains a message
+  useEffect(() => {
+    if (!chatSession || messages === loadedMessagesRef.current) return;
+    if (!messages.some(m => m.role === 'user')) return;
+    const { id, createdAt } = threadRef.current;
+    saveThread({
+      id,
+      createdAt,
+      title: threadTitle(messages),
+      updatedAt: new Date().toISOString(),
+      messages,
+      history: [...chatSession.history],
+    }).catch(err => console.error("Failed to save conversation", err));
+  }, [messages]);
+
   // Auto-scroll to latest message
   useEffect(() => {
     if (isOpen) messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isOpen]);
+  }, [messages, pendingConfirmation, streamingText, isOpen]);
+
+  // Offer the recovery sheet as soon as the microphone turns out to be blocked,
+  // and put it away once access comes back
+  useEffect(() => {
+    if (mic.state === 'blocked') setShowRecovery(true);
+    if (mic.state === 'granted') setShowRecovery(false);
+  }, [mic.state]);
+
+  // Hands-free: listen again whenever nothing else is going on
+  useEffect(() => {
+    if (handsFree && voiceState === 'idle' && !pendingConfirmation) startRecording(true);
+  }, [handsFree, voiceState, pendingConfirmation]);
+
+  // Only deliberate speech should interrupt the assistant
+  useEffect(() => {
+    detectorRef.current?.configure(voiceState === 'speaking' ? BARGE_IN_VOICE_ACTIVITY : DEFAULT_VOICE_ACTIVITY);
+  }, [voiceState]);
 
   // Load voices on mount (needed for some browsers)
   useEffect(() => {
@@ -64,16 +195,143 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(t => t.stop());
       }
+      detectorRef.current?.stop();
+      handsFreeStreamRef.current?.getTracks().forEach(t => t.stop());
+      recognitionRef.current?.abort();
+      confirmResolverRef.current?.(false);
     };
   }, []);
 
+  const isBusy = () => loading || voiceState !== 'idle';
+
+  const resumeThread = (thread: ChatThread) => {
+    threadRef.current = { id: thread.id, createdAt: thread.createdAt };
+    loadedMessagesRef.current = thread.messages;
+    setChatSession(createProjectChatSession(projects, thread.history));
+    setMessages(thread.messages);
+    setShowThreads(false);
+  };
+
+  const resetThread = () => {
+    threadRef.current = newThreadInfo();
+    setChatSession(createProjectChatSession(projects));
+    setMessages([greeting()]);
+  };
+
+  const startNewThread = () => {
+    resetThread();
+    setShowThreads(false);
+  };
+
+  const handleThreadDeleted = (id: string) => {
+    if (id === threadRef.current.id) resetThread();
+  };
+
+  const exportThread = (thread: ChatThread) => {
+    // The open thread may have messages the saved copy does not yet
+    if (thread.id === threadRef.current.id) {
+      downloadMarkdown({ ...thread, title: threadTitle(messages), messages });
+    } else {
+      downloadMarkdown(thread);
+    }
+  };
+
   const handleToolCall = async (name: string, args: any) => {
     if (name === 'searchProjectHistory') {
-      return await searchProjectsInSheet(args.query);
+      return await getProjectRepository().searchProjects(args.query);
+    }
+    if (WRITE_TOOLS.includes(name)) {
+      const action = resolveAssistantAction(name, args, projects);
+      const description = describeAssistantAction(action);
+      const confirmed = await requestConfirmation(description);
+      setMessages(prev => [...prev, {
+        role: 'model',
+        text: confirmed ? `✓ ${description}` : `✕ Cancelled: ${description}`,
+        timestamp: new Date(),
+      }]);
+      if (!confirmed) return { applied: false, reason: 'The user declined this change.' };
+      const saved = await onAction(action);
+      return saved
+        ? { applied: true }
+        : { applied: false, reason: 'The change could not be saved. The dashboard shows the error.' };
     }
     return { error: "Unknown tool" };
   };
 
+  /**
+   * Show a confirmation card and wait for the answer. Changes proposed
+   * together are confirmed one at a time.
+   */
+  const requestConfirmation = (description: string): Promise<boolean> => {
+    const answer = confirmQueueRef.current.then(() => new Promise<boolean>(resolve => {
+      confirmResolverRef.current = resolve;
+      setPendingConfirmation(description);
+      if (voiceTurnRef.current) askByVoice(description);
+    }));
+    confirmQueueRef.current = answer;
+    return answer;
+  };
+
+  const settleConfirmation = (confirmed: boolean) => {
+    const resolve = confirmResolverRef.current;
+    if (!resolve) return;
+    confirmResolverRef.current = null;
+    setPendingConfirmation(null);
+    stopSpeaking();
+    if (confirmRecorderRef.current?.state === 'recording') confirmRecorderRef.current.stop();
+    if (voiceTurnRef.current) {
+      setVoiceError(null);
+      setVoiceState('processing');
+    }
+    resolve(confirmed);
+  };
+
+  /**
+   * Read the change aloud and listen for a yes or no. Anything else leaves
+   * the card up to be tapped.
+   */
+  const askByVoice = async (description: string) => {
+    setVoiceState('confirming');
+    await speakText(`${description}. Should I go ahead? Say yes or no.`);
+    if (!confirmResolverRef.current) return;
+
+    const confirmed = parseConfirmation(await recordConfirmation());
+    if (!confirmResolverRef.current) return;
+    if (confirmed === null) {
+      setVoiceError("I didn't catch a yes or no. Tap Confirm or Cancel.");
+      return;
+    }
+    settleConfirmation(confirmed);
+  };
+
+  const recordConfirmation = async (): Promise<string> => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickRecorderMimeType();
+      const recorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
+      confirmRecorderRef.current = recorder;
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e: BlobEvent) => {
+        if (e.data && e.data.size > 0) chunks.push(e.data);
+      };
+      const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+      recorder.start();
+      setTimeout(() => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      }, CONFIRM_LISTEN_MS);
+
+      await stopped;
+      stream.getTracks().forEach(t => t.stop());
+      confirmRecorderRef.current = null;
+      if (!confirmResolverRef.current || chunks.length === 0) return '';
+      return await transcribeVoice(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+    } catch (error) {
+      console.error("Confirmation recording error:", error);
+      return '';
+    }
+  };
+
   /**
    * Get the best supported MIME type for MediaRecorder
    */
@@ -93,14 +351,22 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
   };
 
   /**
-   * Start recording audio from microphone
+   * Start recording audio from microphone. Access is requested through the
+   * permission hook first, so a refusal shows up as its blocked or error state.
    */
-  const startRecording = async () => {
+  const startRecording = async (permissionChecked = false) => {
     setVoiceError(null);
+
+    if (!permissionChecked && mic.state !== 'granted' && !(await mic.requestPermission())) {
+      setVoiceError('Microphone unavailable. Please check permissions.');
+      setVoiceState('idle');
+      return;
+    }
     
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
+      const ownsStream = !handsFreeStreamRef.current;
+      const stream = handsFreeStreamRef.current || await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (ownsStream) streamRef.current = stream;
       
       const mimeType = pickRecorderMimeType();
       audioChunksRef.current = [];
@@ -119,19 +385,51 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
 
       recorder.onstop = async () => {
         // Stop stream tracks
-        stream.getTracks().forEach(t => t.stop());
-        streamRef.current = null;
+        if (ownsStream) {
+          stream.getTracks().forEach(t => t.stop());
+          streamRef.current = null;
+        }
+
+        if (discardRecordingRef.current) {
+          discardRecordingRef.current = false;
+          setVoiceState('idle');
+          return;
+        }
+
+        if (audioChunksRef.current.length === 0) {
+          setVoiceError("No audio recorded. Please try again.");
+          setVoiceState('idle');
+          return;
+        }
         
         // Process the recorded audio
-        await processRecordedAudio(recorder.mimeType || mimeType || 'audio/webm');
+        await processRecordedAudio(new Blob(audioChunksRef.current, { type: recorder.mimeType || mimeType || 'audio/webm' }));
       };
 
       recorder.start(250); // Collect data every 250ms
       setVoiceState('recording');
+
+      // Someone barging in is already mid-sentence
+      heardSpeechRef.current = detectorRef.current?.speaking ?? false;
+      setTimeout(() => {
+        if (mediaRecorderRef.current === recorder) stopRecording();
+      }, MAX_RECORDING_MS);
+      if (!ownsStream) {
+        setTimeout(() => {
+          if (mediaRecorderRef.current === recorder && recorder.state === 'recording' && !heardSpeechRef.current) {
+            discardRecording();
+          }
+        }, HANDS_FREE_IDLE_MS);
+      }
     } catch (error) {
       console.error("Microphone error:", error);
-      setVoiceError('Microphone unavailable. Please check permissions.');
+      stopHandsFree();
       setVoiceState('idle');
+      // Access was granted before; ask again so the hook can tell a block
+      // (e.g. a screen overlay) from a passing failure
+      setVoiceError(await mic.requestPermission()
+        ? 'Microphone unavailable. Please try again.'
+        : 'Microphone unavailable. Please check permissions.');
     }
   };
 
@@ -147,31 +445,160 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
   };
 
   /**
-   * Process the recorded audio: transcribe, send to AI, speak response
+   * Stop recording without sending anything
    */
-  const processRecordedAudio = async (mimeType: string) => {
+  const discardRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      discardRecordingRef.current = true;
+      recorder.stop();
+    }
+  };
+
+  /**
+   * Listen continuously: each pause ends the turn, the answer is spoken, then
+   * listening resumes. Talking over the answer interrupts it.
+   */
+  const startHandsFree = async () => {
+    if (mic.state === 'blocked') {
+      setShowRecovery(true);
+      return;
+    }
+    if (mic.state !== 'granted' && !(await mic.requestPermission())) {
+      setVoiceError('Microphone unavailable. Please check permissions.');
+      return;
+    }
+
     try {
-      if (audioChunksRef.current.length === 0) {
-        setVoiceError("No audio recorded. Please try again.");
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+      handsFreeStreamRef.current = stream;
+      // Through a ref, so the detector always reaches this render's state
+      detectorRef.current = createVoiceActivityDetector(stream, {
+        onSpeechStart: () => voiceActivityRef.current.onSpeechStart?.(),
+        onSpeechEnd: () => voiceActivityRef.current.onSpeechEnd?.(),
+      });
+      setVoiceError(null);
+      setShowThreads(false);
+      setHandsFree(true);
+    } catch (error) {
+      console.error("Hands-free microphone error:", error);
+      setVoiceError('Microphone unavailable. Please check permissions.');
+    }
+  };
+
+  const stopHandsFree = () => {
+    setHandsFree(false);
+    detectorRef.current?.stop();
+    detectorRef.current = null;
+    if (handsFreeStreamRef.current && mediaRecorderRef.current?.state === 'recording') discardRecording();
+    handsFreeStreamRef.current?.getTracks().forEach(t => t.stop());
+    handsFreeStreamRef.current = null;
+  };
+
+  voiceActivityRef.current = {
+    onSpeechStart: () => {
+      if (voiceState === 'recording') {
+        heardSpeechRef.current = true;
+      } else if (voiceState === 'speaking') {
+        // Barge-in: drop the answer, even one still streaming in, and listen
+        abortVoiceTurn();
+        stopSpeaking();
         setVoiceState('idle');
-        return;
       }
+    },
+    onSpeechEnd: () => {
+      if (voiceState === 'recording' && heardSpeechRef.current) stopRecording();
+    },
+  };
 
-      // Create blob from chunks
-      const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
-      
+  /**
+   * Process a recording, live or from the system recorder: transcribe, send
+   * to AI, speak response
+   */
+  const processRecordedAudio = (audioBlob: Blob) =>
+    runVoiceTurn(handlers => sendVoiceMessage(audioBlob, chatSession!, handleToolCall, handlers));
+
+  /**
+   * Run a quick command from an on-device transcript. Resolves to the answer,
+   * or null to hand the transcript to the assistant.
+   */
+  const runLocalCommand = async (transcript: string): Promise<string | null> => {
+    const command = parseVoiceCommand(transcript);
+    if (!command) return null;
+    if (command.kind === 'rotReport') return describeRotReport(command.levels, projects);
+
+    let action: AssistantAction;
+    try {
+      action = voiceCommandAction(command, projects);
+    } catch {
+      // The assistant copes better with names that do not match exactly
+      return null;
+    }
+    const description = describeAssistantAction(action);
+
+    // Archiving asks first, as the assistant's changes do
+    if (command.kind === 'archive' && !(await requestConfirmation(description))) {
+      return `✕ Cancelled: ${description}`;
+    }
+    return (await onAction(action))
+      ? `✓ ${description}`
+      : "That change didn't save. The dashboard shows the error.";
+  };
+
+  /**
+   * Answer an on-device transcript: a quick command locally, anything else
+   * through the chat path as a typed message would go
+   */
+  const processTranscript = (transcript: string) =>
+    runVoiceTurn(async handlers => {
+      handlers.onTranscript?.(transcript);
+      const local = await runLocalCommand(transcript);
+      const response = local ?? await sendChatMessage(chatSession!, transcript, handleToolCall, handlers);
+      return { transcript, response };
+    });
+
+  /**
+   * One spoken exchange: send it, show the reply as it streams in and speak
+   * it sentence by sentence
+   */
+  const runVoiceTurn = async (send: (handlers: StreamHandlers) => Promise<{ transcript: string; response: string }>) => {
+    // Only one turn may add to the conversation or move the voice state
+    abortVoiceTurn();
+    const turn = new AbortController();
+    turnRef.current = turn;
+    const isCurrent = () => turnRef.current === turn;
+    // Sound heard before the turn started is not the start of a barge-in
+    detectorRef.current?.reset();
+
+    voiceTurnRef.current = true;
+    try {
       if (!chatSession) {
         setVoiceError("AI service not initialized.");
         setVoiceState('idle');
         return;
       }
 
-      // Send voice message and get response
-      const { transcript, response } = await sendVoiceMessage(
-        audioBlob, 
-        chatSession,
-        handleToolCall
-      );
+      // Stream the reply, speaking each sentence as soon as it is complete
+      // With auto-speak off, answers to voice messages are only shown
+      const speech = loadSpeechSettings().autoSpeak ? createSpeechQueue() : null;
+      speechQueueRef.current = speech;
+      const { transcript, response } = await send({
+        signal: turn.signal,
+        onTranscript: (text) => {
+          setMessages(prev => [...prev, { role: 'user', text, timestamp: new Date() }]);
+        },
+        onText: (text) => {
+          if (!isCurrent()) return;
+          setStreamingText(text);
+          if (!speech) return;
+          speech.update(text);
+          if (!speech.cancelled) setVoiceState(state => state === 'processing' ? 'speaking' : state);
+        },
+      });
+      if (!isCurrent()) return;
+      setStreamingText(null);
 
       if (!transcript) {
         setVoiceError("Couldn't transcribe that. Please speak clearly and try again.");
@@ -179,13 +606,6 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
         return;
       }
 
-      // Add user message to chat
-      setMessages(prev => [...prev, { 
-        role: 'user', 
-        text: transcript, 
-        timestamp: new Date() 
-      }]);
-
       // Add AI response to chat
       setMessages(prev => [...prev, { 
         role: 'model', 
@@ -193,32 +613,189 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
         timestamp: new Date() 
       }]);
 
-      // Speak the response
-      setVoiceState('speaking');
-      await speakText(response);
-      setVoiceState('idle');
+      // Speak whatever has not been spoken yet
+      if (speech && !speech.cancelled) {
+        setVoiceState('speaking');
+        await speech.finish(response);
+      }
+      // After a barge-in the next turn owns the voice state
+      if (!isCurrent()) return;
+      // Hands-free may already be listening again
+      setVoiceState(state => state === 'recording' ? state : 'idle');
 
     } catch (error) {
+      if (!isCurrent()) return;
       console.error("Voice processing error:", error);
-      setVoiceError('Voice processing failed. Please try again.');
+      setVoiceError(error instanceof UnintelligibleAudioError || error instanceof UnsupportedAudioError
+        ? error.message
+        : 'Voice processing failed. Please try again.');
+      setStreamingText(null);
+      speechQueueRef.current?.cancel();
+      setVoiceState('idle');
+    } finally {
+      if (isCurrent()) {
+        turnRef.current = null;
+        voiceTurnRef.current = false;
+        speechQueueRef.current = null;
+      }
+    }
+  };
+
+  /**
+   * Abandon the voice turn in flight: its request, its speech and whatever
+   * state it would still set
+   */
+  const abortVoiceTurn = () => {
+    turnRef.current?.abort();
+    turnRef.current = null;
+    voiceTurnRef.current = false;
+    speechQueueRef.current?.cancel();
+    speechQueueRef.current = null;
+    setStreamingText(null);
+  };
+
+  /**
+   * Transcribe in the browser until the button is tapped again
+   */
+  const startDeviceRecognition = async () => {
+    setVoiceError(null);
+    let session: RecognitionSession;
+    try {
+      session = startRecognition(setInterimTranscript);
+    } catch (error) {
+      console.error("Speech recognition error:", error);
+      setVoiceError('Speech recognition is unavailable. Turn it off in voice settings to use the assistant instead.');
+      return;
+    }
+    recognitionRef.current = session;
+    setVoiceState('recording');
+
+    let transcript: string | null;
+    try {
+      transcript = await session.result;
+    } catch (error) {
+      console.error("Speech recognition error:", error);
+      setVoiceState('idle');
+      if (error instanceof SpeechRecognitionError && error.code === 'not-allowed') {
+        // Let the permission hook decide whether the microphone is blocked
+        if (!(await mic.requestPermission())) return;
+      }
+      setVoiceError('Speech recognition failed. Please try again, or turn it off in voice settings.');
+      return;
+    } finally {
+      recognitionRef.current = null;
+      setInterimTranscript('');
+    }
+
+    // Whatever aborted it has already reset the panel
+    if (transcript === null) return;
+    if (!transcript) {
+      setVoiceError("I didn't hear anything. Please try again.");
+      setVoiceState('idle');
+      return;
+    }
+    setVoiceState('processing');
+    await processTranscript(transcript);
+  };
+
+  /**
+   * A file from the system recorder, used while live access is blocked
+   */
+  const handleFallbackAudio = (file: File) => {
+    setShowFallbackRecorder(false);
+    setShowThreads(false);
+    setVoiceError(null);
+    setVoiceState('processing');
+    processRecordedAudio(file);
+  };
+
+  const retryMicrophone = async () => {
+    if (await mic.requestPermission()) {
+      setShowRecovery(false);
+      startRecording(true);
+    }
+  };
+
+  const openFallbackRecorder = () => {
+    setShowRecovery(false);
+    setShowFallbackRecorder(true);
+  };
+
+  /**
+   * Drop whatever the voice pipeline was doing and check access afresh
+   */
+  const resetVoiceSession = () => {
+    abortVoiceTurn();
+    stopSpeaking();
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    recognitionRef.current?.abort();
+    stopHandsFree();
+    settleConfirmation(false);
+    setStreamingText(null);
+    setVoiceError(null);
+    setVoiceState('idle');
+    setShowRecovery(false);
+    mic.checkExistingPermission();
+  };
+
+  /**
+   * Read a message from the log again
+   */
+  const replayMessage = (index: number) => {
+    setReplayingIndex(index);
+    speakText(messages[index].text).then(() => {
+      setReplayingIndex(current => current === index ? null : current);
+    });
+  };
+
+  // Stop whichever message is being read, a replay or the live answer
+  const skipSpeech = () => {
+    if (voiceState === 'speaking') {
+      speechQueueRef.current?.cancel();
       setVoiceState('idle');
     }
+    stopSpeaking();
+    setReplayingIndex(null);
+  };
+
+  const closePanel = () => {
+    if (recognitionRef.current) {
+      recognitionRef.current.abort();
+      setVoiceState('idle');
+    }
+    stopHandsFree();
+    stopSpeaking();
+    setIsOpen(false);
   };
 
   /**
    * Toggle voice recording on/off
    */
   const handleVoiceButton = () => {
-    if (voiceState === 'recording') {
+    if (voiceState === 'recording' && recognitionRef.current) {
+      recognitionRef.current.stop();
+      setVoiceState('processing');
+    } else if (voiceState === 'recording') {
       stopRecording();
+    } else if (voiceState === 'idle' && mic.state === 'blocked') {
+      setShowRecovery(true);
     } else if (voiceState === 'idle') {
-      startRecording();
+      setShowThreads(false);
+      if (loadSpeechSettings().onDeviceRecognition && isSpeechRecognitionAvailable()) startDeviceRecognition();
+      else startRecording();
     } else if (voiceState === 'speaking') {
-      // Allow stopping speech
+      // Allow stopping speech, including sentences of a reply still streaming in
+      speechQueueRef.current?.cancel();
       stopSpeaking();
       setVoiceState('idle');
     }
-    // Don't do anything if processing
+    // Don't do anything while processing or confirming
   };
 
   /**
@@ -233,11 +810,15 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
     setLoading(true);
     
     try {
-      const responseText = await sendChatMessage(chatSession, textToSend, handleToolCall);
+      const responseText = await sendChatMessage(chatSession, textToSend, handleToolCall, {
+        onText: setStreamingText,
+      });
       setMessages(prev => [...prev, { role: 'model', text: responseText, timestamp: new Date() }]);
-    } catch (e) {
-      setMessages(prev => [...prev, { role: 'model', text: 'Error communicating with analyst.', timestamp: new Date() }]);
+    } catch (e: any) {
+      console.error("Chat error:", e);
+      setMessages(prev => [...prev, { role: 'model', text: e.message || 'Error communicating with analyst.', timestamp: new Date() }]);
     } finally {
+      setStreamingText(null);
       setLoading(false);
     }
   };
@@ -251,9 +832,13 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
         return 'bg-red-600 border-red-500 text-white animate-pulse';
       case 'processing':
         return 'bg-amber-500 border-amber-400 text-white cursor-wait';
+      case 'confirming':
+        return 'bg-amber-600 border-amber-500 text-white animate-pulse cursor-wait';
       case 'speaking':
         return 'bg-green-600 border-green-500 text-white';
       default:
+        if (mic.state === 'blocked') return 'bg-rose-950 border-rose-800 text-rose-200 hover:bg-rose-900';
+        if (mic.state === 'error') return 'bg-slate-800 border-slate-700 text-slate-200 hover:bg-slate-700';
         return 'bg-indigo-600 border-indigo-500 text-white hover:bg-indigo-500';
     }
   };
@@ -261,12 +846,16 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
   const getVoiceButtonText = () => {
     switch (voiceState) {
       case 'recording':
-        return 'FINISHED';
+        return handsFree ? 'LISTENING' : 'FINISHED';
       case 'processing':
         return 'PROCESSING...';
+      case 'confirming':
+        return 'SAY YES OR NO';
       case 'speaking':
         return 'STOP SPEAKING';
       default:
+        if (mic.state === 'blocked') return 'MIC BLOCKED';
+        if (mic.state === 'error') return 'RETRY MIC';
         return 'SPEAK';
     }
   };
@@ -280,6 +869,7 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
           </svg>
         );
       case 'processing':
+      case 'confirming':
         return (
           <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
         );
@@ -338,40 +928,71 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
               <h2 className="font-black text-xl text-white tracking-tighter uppercase leading-none">AI Analyst</h2>
               <p className={`text-[10px] font-black uppercase tracking-[0.2em] mt-1 ${
                 voiceState === 'recording' ? 'text-red-400 animate-pulse' :
-                voiceState === 'processing' ? 'text-amber-400' :
+                voiceState === 'processing' || voiceState === 'confirming' ? 'text-amber-400' :
                 voiceState === 'speaking' ? 'text-green-400' :
                 'text-slate-500'
               }`}>
                 {voiceState === 'recording' ? 'RECORDING...' :
                  voiceState === 'processing' ? 'PROCESSING...' :
+                 voiceState === 'confirming' ? 'CONFIRMING...' :
                  voiceState === 'speaking' ? 'SPEAKING...' :
                  'READY'}
               </p>
             </div>
           </div>
-          <button 
-            onClick={() => {
-              stopSpeaking();
-              setIsOpen(false);
-            }} 
-            className="p-3 bg-slate-900 text-slate-400 rounded-full hover:text-white transition-all active:scale-90"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-8 h-8">
-              <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowVoiceSettings(true)}
+              title="Voice settings"
+              className="p-3 rounded-full bg-slate-900 text-slate-400 hover:text-white transition-all active:scale-90"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 1 1-3 0m3 0a1.5 1.5 0 1 0-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-9.75 0h9.75" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowThreads(!showThreads)}
+              disabled={isBusy()}
+              title="Saved conversations"
+              className={`p-3 rounded-full transition-all active:scale-90 disabled:opacity-40 ${showThreads ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+              </svg>
+            </button>
+            <button 
+              onClick={closePanel} 
+              className="p-3 bg-slate-900 text-slate-400 rounded-full hover:text-white transition-all active:scale-90"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-8 h-8">
+                <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Voice Button */}
         <div className="bg-slate-900 p-4 border-b-2 border-slate-950 flex gap-4">
           <button
             onClick={handleVoiceButton}
-            disabled={voiceState === 'processing'}
+            disabled={voiceState === 'processing' || voiceState === 'confirming'}
             className={`flex-1 py-5 rounded-2xl font-black uppercase tracking-widest text-sm transition-all shadow-xl border-2 flex items-center justify-center gap-3 ${getVoiceButtonStyle()}`}
           >
             {getVoiceButtonIcon()}
             {getVoiceButtonText()}
           </button>
+          <button
+            onClick={handsFree ? stopHandsFree : startHandsFree}
+            disabled={!handsFree && voiceState !== 'idle'}
+            title="Listen continuously and answer after each pause"
+            className={`shrink-0 px-4 rounded-2xl font-black uppercase tracking-widest text-[10px] leading-tight transition-all border-2 disabled:opacity-40 ${
+              handsFree
+                ? 'bg-emerald-600 border-emerald-500 text-white'
+                : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            {handsFree ? 'Hands-free on' : 'Hands-free'}
+          </button>
         </div>
 
         {/* Error/Status Display */}
@@ -381,21 +1002,79 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
           </div>
         )}
 
+        {showThreads && (
+          <ChatThreadList
+            currentThreadId={threadRef.current.id}
+            onResume={resumeThread}
+            onNew={startNewThread}
+            onExport={exportThread}
+            onDeleted={handleThreadDeleted}
+          />
+        )}
+
         {/* Messages */}
-        <div className="flex-1 flex flex-col min-h-0 bg-slate-950/80">
+        <div className={`flex-1 flex flex-col min-h-0 bg-slate-950/80 ${showThreads ? 'hidden' : ''}`}>
           <div className="flex-1 overflow-y-auto p-6 space-y-6 no-scrollbar">
-            {messages.map((msg, idx) => (
-              <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-                <div className={`max-w-[90%] rounded-3xl px-6 py-4 text-base font-medium leading-relaxed shadow-lg ${
-                  msg.role === 'user' 
-                    ? 'bg-indigo-600 text-white rounded-br-none' 
-                    : 'bg-slate-800 border-2 border-slate-700 text-slate-100 rounded-bl-none'
-                }`}>
-                  {msg.text}
+            {messages.map((msg, idx) => {
+              // Being read aloud: replayed, or the answer just spoken
+              const isSpoken = replayingIndex === idx || (voiceState === 'speaking' && idx === messages.length - 1);
+              return (
+                <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                  <div className={`max-w-[90%] rounded-3xl px-6 py-4 text-base font-medium leading-relaxed shadow-lg ${
+                    msg.role === 'user' 
+                      ? 'bg-indigo-600 text-white rounded-br-none' 
+                      : 'bg-slate-800 border-2 border-slate-700 text-slate-100 rounded-bl-none'
+                  }`}>
+                    {msg.text}
+                  </div>
+                  {msg.role === 'model' && window.speechSynthesis && (
+                    <button
+                      onClick={() => isSpoken ? skipSpeech() : replayMessage(idx)}
+                      disabled={!isSpoken && voiceState !== 'idle'}
+                      className="mt-1 px-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white disabled:opacity-40 transition-colors"
+                    >
+                      {isSpoken ? '■ Skip' : '▶ Replay'}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {interimTranscript && (
+              <div className="flex flex-col items-end">
+                <div className="max-w-[90%] rounded-3xl rounded-br-none px-6 py-4 text-base font-medium leading-relaxed shadow-lg bg-indigo-600/50 text-indigo-100 italic">
+                  {interimTranscript}
+                </div>
+              </div>
+            )}
+            {pendingConfirmation && (
+              <div className="bg-amber-950/40 border-2 border-amber-800 rounded-3xl px-6 py-4 shadow-lg">
+                <p className="text-[10px] font-black uppercase tracking-[0.2em] text-amber-400 mb-2">Confirm change</p>
+                <p className="text-base font-medium text-slate-100 mb-4">{pendingConfirmation}</p>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => settleConfirmation(true)}
+                    className="flex-1 py-3 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-black uppercase tracking-widest active:scale-95 transition-all"
+                  >
+                    Confirm
+                  </button>
+                  <button
+                    onClick={() => settleConfirmation(false)}
+                    className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 rounded-xl text-xs font-black uppercase tracking-widest active:scale-95 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+            {streamingText && (
+              <div className="flex flex-col items-start">
+                <div className="max-w-[90%] rounded-3xl px-6 py-4 text-base font-medium leading-relaxed shadow-lg bg-slate-800 border-2 border-slate-700 text-slate-100 rounded-bl-none">
+                  {streamingText}
+                  <span className="inline-block w-2 h-4 ml-1 align-middle bg-indigo-400 animate-pulse"></span>
                 </div>
               </div>
-            ))}
-            {loading && (
+            )}
+            {loading && !pendingConfirmation && !streamingText && (
               <div className="flex justify-start">
                 <div className="bg-slate-800 px-6 py-4 rounded-3xl flex gap-2">
                   <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce"></div>
@@ -409,7 +1088,7 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
         </div>
 
         {/* Text Input */}
-        <div className="p-6 bg-slate-900 border-t-2 border-slate-950 pb-12 md:pb-6">
+        <div className={`p-6 bg-slate-900 border-t-2 border-slate-950 pb-12 md:pb-6 ${showThreads ? 'hidden' : ''}`}>
           <div className="flex gap-4 relative">
             <input 
               type="text" 
@@ -433,16 +1112,27 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ projects }) => {
       
       {/* Mobile close button */}
       <button 
-        onClick={() => {
-          stopSpeaking();
-          setIsOpen(false);
-        }} 
+        onClick={closePanel} 
         className="fixed bottom-10 right-10 w-20 h-20 bg-slate-800 text-slate-400 border-4 border-slate-700 rounded-full shadow-2xl z-[70] flex items-center justify-center transition-all hover:scale-110 active:scale-90 md:hidden"
       >
         <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3} stroke="currentColor" className="w-8 h-8">
           <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
         </svg>
       </button>
+
+      <VoiceSettings isOpen={showVoiceSettings} onClose={() => setShowVoiceSettings(false)} />
+      <VoiceRecoverySheet
+        open={showRecovery}
+        onRetry={retryMicrophone}
+        onRecordFallback={openFallbackRecorder}
+        onReset={resetVoiceSession}
+      />
+      {showFallbackRecorder && (
+        <AudioRecorderFallback
+          onAudioSelected={handleFallbackAudio}
+          onCancel={() => setShowFallbackRecorder(false)}
+        />
+      )}
     </>
   );
 };
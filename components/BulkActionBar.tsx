@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ProjectStatus } from '../types';
+import { BulkAction } from '../services/bulkActions';
+
+export interface BulkSummary {
+  saved: number;
+  failed: { name: string; message: string }[];
+  queued: boolean; // Offline: changes wait in the queue instead of being written
+}
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  onApply: (action: BulkAction) => Promise<BulkSummary>;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: () => void;
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedCount, onApply, onSelectAll, onClear, onDone }) => {
+  const [tag, setTag] = useState('');
+  const [owner, setOwner] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [summary, setSummary] = useState<BulkSummary | null>(null);
+
+  const apply = async (action: BulkAction) => {
+    if (selectedCount === 0 || isApplying) return;
+    setIsApplying(true);
+    setSummary(null);
+    try {
+      setSummary(await onApply(action));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const disabled = selectedCount === 0 || isApplying;
+  const buttonClass = "shrink-0 px-4 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-xs font-black uppercase tracking-widest transition-colors disabled:opacity-40";
+  const inputClass = "w-32 px-3 py-3 bg-slate-950 border border-slate-700 text-white rounded-xl text-xs font-bold focus:border-indigo-500 outline-none";
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-[55] bg-slate-900/95 backdrop-blur-md border-t-2 border-indigo-600 shadow-2xl px-4 md:px-10 py-4">
+      {summary && (
+        <div className={`mb-3 px-4 py-3 rounded-xl text-sm border ${summary.failed.length > 0 ? 'bg-amber-950/40 border-amber-900 text-amber-100' : 'bg-emerald-950/40 border-emerald-900 text-emerald-100'}`}>
+          <div className="flex justify-between gap-4">
+            <span className="font-bold">
+              {summary.queued ? `${summary.saved} change${summary.saved === 1 ? '' : 's'} queued until you are back online` : `Saved ${summary.saved} of ${summary.saved + summary.failed.length}`}
+            </span>
+            <button onClick={() => setSummary(null)} className="text-slate-400 hover:text-white font-bold">✕</button>
+          </div>
+          {summary.failed.length > 0 && (
+            <ul className="list-disc pl-5 mt-1 text-amber-200/80 space-y-0.5 max-h-24 overflow-y-auto">
+              {summary.failed.map((f, i) => <li key={i}><span className="font-bold">{f.name}</span>: {f.message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 overflow-x-auto no-scrollbar max-w-screen-2xl mx-auto">
+        <span className="shrink-0 text-sm font-black uppercase tracking-widest text-white pr-2">{selectedCount} selected</span>
+
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(e) => e.target.value && apply({ kind: 'status', status: e.target.value as ProjectStatus })}
+          className="shrink-0 appearance-none bg-slate-800 border border-slate-700 text-white text-xs font-black uppercase tracking-widest rounded-xl px-4 py-3 disabled:opacity-40"
+        >
+          <option value="">Set Status</option>
+          {Object.values(ProjectStatus).filter(s => s !== ProjectStatus.ARCHIVED).map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        <button onClick={() => apply({ kind: 'touch' })} disabled={disabled} className={buttonClass}>Touch</button>
+        <button onClick={() => apply({ kind: 'archive' })} disabled={disabled} className={`${buttonClass} hover:bg-rose-700`}>Archive</button>
+
+        <div className="shrink-0 flex gap-1">
+          <input type="text" value={tag} onChange={(e) => setTag(e.target.value)} placeholder="#tag" className={inputClass} />
+          <button onClick={() => apply({ kind: 'addTag', tag })} disabled={disabled || !tag.trim()} className={buttonClass}>+ Tag</button>
+          <button onClick={() => apply({ kind: 'removeTag', tag })} disabled={disabled || !tag.trim()} className={buttonClass}>− Tag</button>
+        </div>
+
+        <div className="shrink-0 flex gap-1">
+          <input type="text" value={owner} onChange={(e) => setOwner(e.target.value)} placeholder="New lead" className={inputClass} />
+          <button onClick={() => apply({ kind: 'owner', owner })} disabled={disabled || !owner.trim()} className={buttonClass}>Reassign</button>
+        </div>
+
+        {isApplying && <div className="shrink-0 w-5 h-5 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>}
+
+        <div className="ml-auto shrink-0 flex gap-2">
+          <button onClick={onSelectAll} className="px-3 py-3 text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white">All</button>
+          <button onClick={onClear} className="px-3 py-3 text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white">None</button>
+          <button onClick={onDone} className="px-4 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-xs font-black uppercase tracking-widest">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
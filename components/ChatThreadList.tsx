@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { ChatThread, ThreadSearchResult, deleteThread, searchThreads } from '../services/chatThreads';
+
+interface ChatThreadListProps {
+  currentThreadId: string;
+  onResume: (thread: ChatThread) => void;
+  onNew: () => void;
+  onExport: (thread: ChatThread) => void;
+  onDeleted: (id: string) => void;
+}
+
+export const ChatThreadList: React.FC<ChatThreadListProps> = ({ currentThreadId, onResume, onNew, onExport, onDeleted }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ThreadSearchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSearch = async (text: string) => {
+    try {
+      setResults(await searchThreads(text));
+      setError(null);
+    } catch (err: any) {
+      console.error("Thread search failed", err);
+      setError(err.message || 'Saved conversations are unavailable.');
+    }
+  };
+
+  useEffect(() => {
+    runSearch(query);
+  }, [query]);
+
+  const handleDelete = async (id: string) => {
+    await deleteThread(id);
+    onDeleted(id);
+    runSearch(query);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-slate-950/80">
+      <div className="p-4 flex gap-3 border-b-2 border-slate-900">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conversations..."
+          className="flex-1 px-4 py-3 bg-slate-950 border-2 border-slate-800 rounded-xl focus:border-indigo-500 outline-none text-sm text-white"
+        />
+        <button
+          onClick={onNew}
+          className="shrink-0 px-4 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-xs font-black uppercase tracking-widest"
+        >
+          New
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 no-scrollbar">
+        {error && <p className="text-red-400 text-sm font-semibold">{error}</p>}
+        {!error && results.length === 0 && (
+          <p className="text-slate-500 text-sm text-center py-8">{query ? 'No conversations match.' : 'No saved conversations yet.'}</p>
+        )}
+        {results.map(({ thread, snippet }) => (
+          <div
+            key={thread.id}
+            className={`flex items-start gap-2 rounded-2xl border-2 px-4 py-3 ${thread.id === currentThreadId ? 'border-indigo-700 bg-indigo-950/40' : 'border-slate-800 bg-slate-900 hover:border-slate-700'}`}
+          >
+            <button onClick={() => onResume(thread)} className="flex-1 min-w-0 text-left">
+              <div className="text-sm font-bold text-white truncate">{thread.title}</div>
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mt-0.5">
+                {new Date(thread.updatedAt).toLocaleString()} · {thread.messages.length} messages
+              </div>
+              {query && <div className="text-xs text-slate-400 mt-1 line-clamp-2">{snippet}</div>}
+            </button>
+            <button onClick={() => onExport(thread)} title="Export as Markdown" className="shrink-0 px-2 py-1 text-xs font-black text-slate-400 hover:text-white">MD</button>
+            <button onClick={() => handleDelete(thread.id)} title="Delete" className="shrink-0 px-2 py-1 text-xs font-black text-slate-500 hover:text-rose-400">✕</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Project } from '../types';
+import { diffProjects, mergeProjects, ProjectField } from '../services/dataService';
+import { ProjectConflictError } from '../services/repositoryErrors';
+
+interface ConflictDialogProps {
+  conflict: ProjectConflictError | null;
+  onAcceptTheirs: () => void;
+  onWrite: (project: Project) => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+const FIELD_LABELS: Record<ProjectField, string> = {
+  name: 'Name',
+  links: 'Resource Link',
+  lastTouched: 'Last Touched',
+  status: 'Status',
+  owner: 'Project Lead',
+  dueDate: 'Due Date',
+  tags: 'Taxonomy',
+};
+
+const formatValue = (project: Project, field: ProjectField) => {
+  const value = project[field];
+  if (!value) return '—';
+  return field === 'lastTouched' ? new Date(value).toLocaleString() : value;
+};
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ conflict, onAcceptTheirs, onWrite }) => {
+  const [choices, setChoices] = useState<Partial<Record<ProjectField, Side>>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const { mine, theirs, base } = conflict;
+  const fields = diffProjects(mine, theirs);
+  // Only fields the user edited default to their side; the rest keep the teammate's edits
+  const myChanges = diffProjects(base, mine);
+  const sideFor = (field: ProjectField): Side => choices[field] || (myChanges.includes(field) ? 'mine' : 'theirs');
+
+  const handleMerge = () => {
+    onWrite(mergeProjects(theirs, mine, fields.filter(field => sideFor(field) === 'mine')));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center bg-slate-950/90 backdrop-blur-md p-0 md:p-6">
+      <div className="bg-slate-900 border-t-4 border-amber-500 md:border-4 md:rounded-3xl w-full md:max-w-2xl shadow-[0_0_50px_rgba(0,0,0,0.5)] overflow-hidden max-h-[100dvh] overflow-y-auto">
+        <div className="bg-slate-950 px-8 py-6 border-b border-slate-800">
+          <h2 className="text-3xl font-black text-white tracking-tighter uppercase">Edit Conflict</h2>
+          <p className="text-slate-400 mt-2">{conflict.message} Choose which version of each field to keep.</p>
+        </div>
+
+        <div className="p-8 space-y-4">
+          <div className="grid grid-cols-[8rem_1fr_1fr] gap-3 text-[10px] uppercase text-slate-500 font-black tracking-widest">
+            <span></span>
+            <span>Mine</span>
+            <span>Theirs (in sheet)</span>
+          </div>
+          {fields.map(field => (
+            <div key={field} className="grid grid-cols-[8rem_1fr_1fr] gap-3 items-stretch">
+              <span className="text-xs uppercase text-slate-400 font-black tracking-widest self-center">
+                {FIELD_LABELS[field]}
+                {myChanges.includes(field) && <span className="block text-[10px] text-indigo-400 normal-case tracking-normal">You changed this</span>}
+              </span>
+              {(['mine', 'theirs'] as Side[]).map(side => (
+                <button
+                  key={side}
+                  onClick={() => setChoices({ ...choices, [field]: side })}
+                  className={`text-left px-4 py-3 rounded-2xl border-2 text-sm font-bold break-words transition-all ${
+                    sideFor(field) === side
+                      ? 'bg-indigo-950 border-indigo-500 text-white'
+                      : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600'
+                  }`}
+                >
+                  {formatValue(side === 'mine' ? mine : theirs, field)}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-8 pt-0 flex flex-col md:flex-row gap-4">
+          <button onClick={onAcceptTheirs} className="w-full py-5 bg-slate-800 text-white font-black uppercase tracking-widest rounded-2xl border-2 border-slate-700 transition-all active:scale-95">Keep Theirs</button>
+          <button onClick={() => onWrite(mergeProjects(theirs, mine, myChanges))} className="w-full py-5 bg-slate-800 text-white font-black uppercase tracking-widest rounded-2xl border-2 border-slate-700 transition-all active:scale-95">Keep Mine</button>
+          <button onClick={handleMerge} className="w-full py-5 bg-indigo-600 text-white font-black uppercase tracking-widest rounded-2xl shadow-2xl transition-all active:scale-95">Apply Selection</button>
+        </div>
+      </div>
+    </div>
+  );
+};
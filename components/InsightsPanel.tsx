@@ -0,0 +1,97 @@
+import React from 'react';
+import { PortfolioInsights, ProjectAnalysis } from '../types';
+
+interface InsightsPanelProps {
+  isOpen: boolean;
+  insights: PortfolioInsights | null;  // Null until generated for the current project data
+  projects: ProjectAnalysis[];
+  isGenerating: boolean;
+  error: string | null;
+  onGenerate: () => void;
+  onClose: () => void;
+}
+
+// Shared with the card badge so a score reads the same everywhere
+export const priorityClass = (score: number): string => {
+  if (score >= 70) return 'bg-rose-950 text-rose-200 border-rose-800';
+  if (score >= 40) return 'bg-amber-950 text-amber-200 border-amber-800';
+  return 'bg-slate-950 text-slate-300 border-slate-700';
+};
+
+export const InsightsPanel: React.FC<InsightsPanelProps> = ({ isOpen, insights, projects, isGenerating, error, onGenerate, onClose }) => {
+  if (!isOpen) return null;
+
+  const ranked = insights
+    ? projects
+        .filter(a => insights.projects[a.project.id])
+        .map(a => ({ project: a.project, insight: insights.projects[a.project.id] }))
+        .sort((a, b) => b.insight.priorityScore - a.insight.priorityScore)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center bg-slate-950/90 backdrop-blur-md p-0 md:p-6">
+      <div className="bg-slate-900 border border-slate-800 md:rounded-2xl w-full md:max-w-2xl max-h-[100dvh] overflow-y-auto shadow-2xl p-6 text-left">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-white">Portfolio Insights</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors text-sm font-semibold">Close</button>
+        </div>
+        <p className="text-sm text-slate-400 mb-6">
+          {insights
+            ? `Generated ${new Date(insights.generatedAt).toLocaleString()}. Kept until a project changes.`
+            : 'A summary, ranked next steps and a priority score for each project, generated from the current data.'}
+        </p>
+
+        {error && (
+          <div className="mb-4 px-4 py-3 rounded-lg text-sm bg-rose-950/40 border border-rose-900 text-rose-200">{error}</div>
+        )}
+
+        {insights && (
+          <>
+            <p className="text-slate-100 leading-relaxed mb-6">{insights.summary}</p>
+
+            {insights.actionItems.length > 0 && (
+              <>
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Action items</h3>
+                <ol className="list-decimal pl-5 space-y-1 text-sm text-slate-200 mb-6">
+                  {insights.actionItems.map((item, i) => <li key={i}>{item}</li>)}
+                </ol>
+              </>
+            )}
+
+            {ranked.length > 0 && (
+              <>
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Projects by priority</h3>
+                <ul className="space-y-2 mb-6">
+                  {ranked.map(({ project, insight }) => (
+                    <li key={project.id} className="flex gap-3 items-start bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+                      <span className={`shrink-0 w-10 text-center py-1 rounded-md border text-xs font-black ${priorityClass(insight.priorityScore)}`}>
+                        {insight.priorityScore}
+                      </span>
+                      <div className="min-w-0">
+                        <div className="text-sm font-bold text-white truncate">{project.name}</div>
+                        <div className="text-xs text-slate-400">{insight.summary}</div>
+                        {insight.actionItems.length > 0 && (
+                          <ul className="list-disc pl-4 mt-1 text-xs text-slate-300 space-y-0.5">
+                            {insight.actionItems.map((item, i) => <li key={i}>{item}</li>)}
+                          </ul>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+
+        <button
+          onClick={onGenerate}
+          disabled={isGenerating || projects.length === 0}
+          className="w-full bg-slate-100 hover:bg-white text-slate-900 font-bold py-2.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isGenerating ? 'Generating...' : insights ? 'Regenerate insights' : 'Generate insights'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,19 @@
 
 import React, { useState } from 'react';
 import { handleAuthClick } from '../services/authService';
+import { StorageBackend } from '../services/projectRepository';
+import { SheetSettings } from './SheetSettings';
 
 interface LoginScreenProps {
   hasValidConfig: boolean;
   onSaveConfig: (id: string) => void;
+  onSelectBackend: (backend: StorageBackend) => void;
 }
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ hasValidConfig, onSaveConfig }) => {
+export const LoginScreen: React.FC<LoginScreenProps> = ({ hasValidConfig, onSaveConfig, onSelectBackend }) => {
   const [tempId, setTempId] = useState('');
   const [showHelp, setShowHelp] = useState(false);
+  const [showSheetSettings, setShowSheetSettings] = useState(false);
   
   // Get the origin for troubleshooting display
   const origin = window.location.origin;
@@ -63,15 +67,48 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ hasValidConfig, onSave
               <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" className="w-5 h-5" alt="Google" />
               <span>Sign in with Google</span>
             </button>
-            <button 
-              onClick={() => onSaveConfig('')} 
-              className="mt-6 text-xs text-slate-500 hover:text-slate-300 underline transition-colors"
-            >
-              Change Client ID
-            </button>
+            <div className="mt-6 flex justify-center gap-6">
+              <button 
+                onClick={() => onSaveConfig('')} 
+                className="text-xs text-slate-500 hover:text-slate-300 underline transition-colors"
+              >
+                Change Client ID
+              </button>
+              <button
+                onClick={() => setShowSheetSettings(true)}
+                className="text-xs text-slate-500 hover:text-slate-300 underline transition-colors"
+              >
+                Sheet Settings
+              </button>
+            </div>
           </>
         )}
+
+        <SheetSettings
+          isOpen={showSheetSettings}
+          canReadSheet={false}
+          onClose={() => setShowSheetSettings(false)}
+          onSaved={() => setShowSheetSettings(false)}
+        />
         
+        <div className="mt-8 pt-6 border-t border-slate-800 text-left">
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">No Google Workspace?</p>
+          <div className="flex flex-col gap-2">
+            <button
+              onClick={() => onSelectBackend('indexeddb')}
+              className="w-full bg-slate-950 hover:bg-slate-800 border border-slate-700 text-slate-200 font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm"
+            >
+              Keep projects on this device
+            </button>
+            <button
+              onClick={() => onSelectBackend('memory')}
+              className="w-full text-xs text-slate-500 hover:text-slate-300 underline transition-colors"
+            >
+              Try a demo (nothing is saved)
+            </button>
+          </div>
+        </div>
+
         <div className="mt-8 pt-6 border-t border-slate-800">
            <button 
              onClick={() => setShowHelp(!showHelp)}
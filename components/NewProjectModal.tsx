@@ -1,15 +1,15 @@
 
 import React, { useState } from 'react';
-import { createProject } from '../services/dataService';
+import { ProjectDetails } from '../types';
 
 interface NewProjectModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  onCreate: (project: ProjectDetails) => Promise<void>;
 }
 
-export const NewProjectModal: React.FC<NewProjectModalProps> = ({ isOpen, onClose, onSuccess }) => {
-  const [formData, setFormData] = useState({ name: '', owner: '', links: '', tags: '' });
+export const NewProjectModal: React.FC<NewProjectModalProps> = ({ isOpen, onClose, onCreate }) => {
+  const [formData, setFormData] = useState<ProjectDetails>({ name: '', owner: '', links: '', tags: '', dueDate: '' });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -21,9 +21,9 @@ export const NewProjectModal: React.FC<NewProjectModalProps> = ({ isOpen, onClos
     setIsSubmitting(true);
     setError(null);
     try {
-      await createProject({ name: formData.name, owner: formData.owner, links: formData.links, tags: formData.tags });
-      setFormData({ name: '', owner: '', links: '', tags: '' });
-      onSuccess();
+      await onCreate({ name: formData.name, owner: formData.owner, links: formData.links, tags: formData.tags, dueDate: formData.dueDate });
+      setFormData({ name: '', owner: '', links: '', tags: '', dueDate: '' });
+      setIsSubmitting(false);
     } catch (err: any) {
       setError(err.message || 'Sheet write failed');
       setIsSubmitting(false);
@@ -60,6 +60,11 @@ export const NewProjectModal: React.FC<NewProjectModalProps> = ({ isOpen, onClos
              <input type="text" className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-6 py-5 text-white font-bold text-lg focus:border-indigo-600 outline-none placeholder-slate-700" placeholder="Name of primary owner" value={formData.owner} onChange={(e) => setFormData({...formData, owner: e.target.value})} />
           </div>
 
+          <div className="space-y-2">
+             <label className="block text-xs font-black text-slate-500 uppercase tracking-widest">Due Date</label>
+             <input type="date" className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-6 py-5 text-white font-bold text-lg focus:border-indigo-600 outline-none [color-scheme:dark]" value={formData.dueDate} onChange={(e) => setFormData({...formData, dueDate: e.target.value})} />
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
              <div className="space-y-2">
                 <label className="block text-xs font-black text-slate-500 uppercase tracking-widest">Taxonomy Tags</label>
@@ -1,14 +1,22 @@
 
 import React, { useState, useEffect } from 'react';
-import { ProjectAnalysis, RotLevel, ProjectStatus } from '../types';
+import { AIInsight, ProjectAnalysis, ProjectDetails, RotLevel, ProjectStatus, DeadlineRisk } from '../types';
+import { effectiveRotLevel } from '../services/dataService';
+import { ProjectTimeline } from './ProjectTimeline';
+import { priorityClass } from './InsightsPanel';
 
 interface ProjectCardProps {
   analysis: ProjectAnalysis;
-  onStatusChange: (id: string, newStatus: ProjectStatus) => void;
-  onProjectUpdate: (id: string, updates: { name: string, links: string, tags: string, owner: string }) => Promise<void>;
+  onStatusChange: (id: string, newStatus: ProjectStatus) => Promise<boolean>;
+  onProjectUpdate: (id: string, updates: ProjectDetails) => Promise<boolean>;
+  insight?: AIInsight;   // From the last generated insights, while they match the project data
+  selectable?: boolean;  // Selection mode: a click selects the card instead of editing it
+  selected?: boolean;
+  onSelect?: (id: string, extendRange: boolean) => void;
 }
 
-const getStyles = (status: ProjectStatus, rotLevel: RotLevel) => {
+// Level is the rot level with the deadline folded in; a deadline that drives it names the badge
+const getStyles = (status: ProjectStatus, level: RotLevel, deadlineRisk: DeadlineRisk | null) => {
   if (status === ProjectStatus.COMPLETED) {
       return {
         leftBorder: 'border-l-emerald-500',
@@ -29,14 +37,14 @@ const getStyles = (status: ProjectStatus, rotLevel: RotLevel) => {
       };
   }
 
-  switch (rotLevel) {
+  switch (level) {
     case RotLevel.ABANDONED:
       return {
         leftBorder: 'border-l-rose-600',
         badgeBg: 'bg-rose-950 text-rose-100 border-2 border-rose-800',
         indicator: 'bg-rose-600',
         textHighlight: 'text-rose-400',
-        label: RotLevel.ABANDONED
+        label: deadlineRisk === DeadlineRisk.OVERDUE ? DeadlineRisk.OVERDUE : RotLevel.ABANDONED
       };
     case RotLevel.NEGLECTED:
       return {
@@ -44,7 +52,7 @@ const getStyles = (status: ProjectStatus, rotLevel: RotLevel) => {
         badgeBg: 'bg-orange-950 text-orange-100 border-2 border-orange-800',
         indicator: 'bg-orange-500',
         textHighlight: 'text-orange-400',
-        label: RotLevel.NEGLECTED
+        label: deadlineRisk === DeadlineRisk.DUE_SOON ? DeadlineRisk.DUE_SOON : RotLevel.NEGLECTED
       };
     case RotLevel.FRESH:
     default:
@@ -93,19 +101,21 @@ const TagRenderer: React.FC<{ text: string }> = ({ text }) => {
   );
 };
 
-export const ProjectCard: React.FC<ProjectCardProps> = ({ analysis, onStatusChange, onProjectUpdate }) => {
-  const { project, daysSinceTouch, rotLevel } = analysis;
+export const ProjectCard: React.FC<ProjectCardProps> = ({ analysis, onStatusChange, onProjectUpdate, insight, selectable, selected, onSelect }) => {
+  const { project, daysSinceTouch, deadlineRisk, daysUntilDue } = analysis;
   const [isSpinning, setIsSpinning] = useState(false);
   const [showArchiveConfirm, setShowArchiveConfirm] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
-  const [editForm, setEditForm] = useState({ name: project.name, links: project.links, tags: project.tags, owner: project.owner || '' });
+  const [editForm, setEditForm] = useState<ProjectDetails>({ name: project.name, links: project.links, tags: project.tags, owner: project.owner || '', dueDate: project.dueDate || '' });
   const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
-    setEditForm({ name: project.name, links: project.links, tags: project.tags, owner: project.owner || '' });
+    setEditForm({ name: project.name, links: project.links, tags: project.tags, owner: project.owner || '', dueDate: project.dueDate || '' });
   }, [project]);
   
-  const styles = getStyles(project.status, rotLevel);
+  const styles = getStyles(project.status, effectiveRotLevel(analysis), deadlineRisk);
 
   const handleRefreshClick = () => {
     setIsSpinning(true);
@@ -119,11 +129,37 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({ analysis, onStatusChan
     else onStatusChange(project.id, newStatus);
   };
 
+  // The dialog stays open when the write fails, so the user can try again
+  const handleArchiveConfirm = async () => {
+    setIsArchiving(true);
+    const archived = await onStatusChange(project.id, ProjectStatus.ARCHIVED);
+    setIsArchiving(false);
+    if (archived) setShowArchiveConfirm(false);
+  };
+
   return (
     <div className={`
       relative flex flex-col h-full bg-slate-900 border border-slate-800 border-l-[10px] ${styles.leftBorder}
       rounded-3xl shadow-xl transition-all duration-300 overflow-hidden group/card
+      ${selected ? 'ring-4 ring-indigo-500' : ''}
     `}>
+
+      {selectable && (
+        <button
+          onClick={(e) => onSelect?.(project.id, e.shiftKey)}
+          className="absolute inset-0 z-40 flex items-start justify-end p-5 bg-slate-950/20 hover:bg-slate-950/10 transition-colors select-none"
+          aria-pressed={!!selected}
+          aria-label={`Select ${project.name}`}
+        >
+          <span className={`w-8 h-8 rounded-lg border-2 flex items-center justify-center ${selected ? 'bg-indigo-600 border-indigo-400' : 'bg-slate-900 border-slate-600'}`}>
+            {selected && (
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3.5} stroke="currentColor" className="w-5 h-5 text-white">
+                <path strokeLinecap="round" strokeLinejoin="round" d="m4.5 12.75 6 6 9-13.5" />
+              </svg>
+            )}
+          </span>
+        </button>
+      )}
       
       {showArchiveConfirm && (
         <div className="absolute inset-0 z-50 bg-slate-950/95 flex flex-col items-center justify-center p-8 text-center animate-fade-in backdrop-blur-md">
@@ -131,7 +167,7 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({ analysis, onStatusChan
             <p className="text-slate-400 text-lg mb-10 leading-relaxed">This will remove the project from active view. You can restore it later if needed.</p>
             <div className="flex flex-col gap-4 w-full">
                 <button onClick={() => setShowArchiveConfirm(false)} className="w-full py-5 bg-slate-800 text-white rounded-2xl font-black uppercase tracking-widest border border-slate-700">Cancel</button>
-                <button onClick={() => {onStatusChange(project.id, ProjectStatus.ARCHIVED); setShowArchiveConfirm(false);}} className="w-full py-5 bg-rose-600 text-white rounded-2xl font-black uppercase tracking-widest shadow-xl">Archive Now</button>
+                <button onClick={handleArchiveConfirm} disabled={isArchiving} className="w-full py-5 bg-rose-600 text-white rounded-2xl font-black uppercase tracking-widest shadow-xl disabled:opacity-50">{isArchiving ? 'Archiving...' : 'Archive Now'}</button>
             </div>
         </div>
       )}
@@ -144,9 +180,19 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({ analysis, onStatusChan
              </svg>
           </button>
           
-          <span className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest shadow-lg ${styles.badgeBg}`}>
-            {styles.label}
-          </span>
+          <div className="flex items-center gap-2">
+            {insight && (
+              <span
+                title={insight.summary}
+                className={`px-3 py-2 rounded-xl text-xs font-black uppercase tracking-widest shadow-lg border-2 ${priorityClass(insight.priorityScore)}`}
+              >
+                P{insight.priorityScore}
+              </span>
+            )}
+            <span className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest shadow-lg ${styles.badgeBg}`}>
+              {styles.label}
+            </span>
+          </div>
         </div>
 
         {isEditing ? (
@@ -178,6 +224,19 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({ analysis, onStatusChan
                       {project.status === ProjectStatus.COMPLETED || project.status === ProjectStatus.ARCHIVED ? '-' : `${daysSinceTouch}D`}
                   </span>
               </div>
+              {project.dueDate && (
+                <div className="col-span-2 bg-slate-950 p-4 rounded-2xl border border-slate-800 flex justify-between items-center gap-3">
+                    <div>
+                      <span className="block text-[10px] uppercase text-slate-500 font-black mb-1 tracking-widest">Due</span>
+                      <span className="text-slate-100 font-bold text-base">{new Date(`${project.dueDate}T00:00:00`).toLocaleDateString()}</span>
+                    </div>
+                    {daysUntilDue !== null && (
+                      <span className={`text-sm font-black uppercase tracking-wide ${deadlineRisk === DeadlineRisk.OVERDUE ? 'text-rose-400' : deadlineRisk === DeadlineRisk.DUE_SOON ? 'text-orange-400' : 'text-slate-400'}`}>
+                        {daysUntilDue < 0 ? `${-daysUntilDue}D overdue` : daysUntilDue === 0 ? 'Due today' : `${daysUntilDue}D left`}
+                      </span>
+                    )}
+                </div>
+              )}
             </div>
         )}
 
@@ -203,6 +262,29 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({ analysis, onStatusChan
               </div>
             )}
           </div>
+
+          {isEditing && (
+            <div className="space-y-2">
+              <span className="text-[10px] uppercase text-slate-500 font-black tracking-widest">Due Date</span>
+              <input type="date" value={editForm.dueDate} onChange={(e) => setEditForm({...editForm, dueDate: e.target.value})} className="w-full bg-slate-950 border-2 border-slate-700 rounded-2xl px-5 py-4 text-slate-200 text-sm focus:border-indigo-500 outline-none [color-scheme:dark]" />
+            </div>
+          )}
+
+          {!isEditing && (
+            <div className="space-y-2">
+              <button onClick={() => setShowHistory(!showHistory)} className="flex items-center gap-2 text-[10px] uppercase text-slate-500 hover:text-slate-300 font-black tracking-widest transition-colors">
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3} stroke="currentColor" className={`w-3 h-3 transition-transform ${showHistory ? 'rotate-90' : ''}`}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+                </svg>
+                Activity
+              </button>
+              {showHistory && (
+                <div className="bg-slate-950 p-4 rounded-2xl border border-slate-800">
+                  <ProjectTimeline projectId={project.id} refreshKey={`${project.lastTouched}|${project.status}|${project.name}|${project.links}|${project.tags}|${project.owner}|${project.dueDate}`} />
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { getProjectRepository } from '../services/projectRepository';
+
+interface ProjectTimelineProps {
+  projectId: string;
+  refreshKey: string; // Changes whenever the project does, so new entries show up
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Renamed',
+  links: 'Links updated',
+  status: 'Status changed',
+  owner: 'Lead changed',
+  dueDate: 'Due date changed',
+  tags: 'Tags updated',
+};
+
+const describeEntry = (entry: HistoryEntry): { title: string; detail?: string } => {
+  switch (entry.field) {
+    case 'created':
+      return { title: 'Created' };
+    case 'archived':
+      return { title: 'Archived', detail: `was ${entry.oldValue}` };
+    case 'lastTouched':
+      return { title: 'Touched' };
+    default:
+      return {
+        title: FIELD_LABELS[entry.field] || entry.field,
+        detail: `${entry.oldValue || '—'} → ${entry.newValue || '—'}`,
+      };
+  }
+};
+
+export const ProjectTimeline: React.FC<ProjectTimelineProps> = ({ projectId, refreshKey }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getProjectRepository().fetchHistory(projectId)
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch((err: any) => { if (!cancelled) setError(err.message || 'Failed to load history'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [projectId, refreshKey]);
+
+  if (loading) {
+    return <div className="py-4 flex justify-center"><div className="w-5 h-5 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-rose-400 font-bold">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-600 italic">No recorded activity yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-slate-800 ml-2 space-y-4 max-h-64 overflow-y-auto no-scrollbar">
+      {entries.map((entry, i) => {
+        const { title, detail } = describeEntry(entry);
+        return (
+          <li key={i} className="ml-4">
+            <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-slate-700 border-2 border-slate-950"></span>
+            <div className="flex justify-between gap-3 text-xs">
+              <span className="font-black text-white uppercase tracking-wide">{title}</span>
+              <span className="text-slate-500 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+            </div>
+            {detail && <p className="text-sm text-slate-400 break-words">{detail}</p>}
+            <p className="text-[10px] text-slate-600 uppercase font-black tracking-widest">{entry.actor}</p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Project } from '../types';
+import { RotPolicy, RotThresholds, loadRotPolicy, saveRotPolicy, normalizeTag, DEFAULT_ROT_POLICY } from '../services/rotPolicy';
+
+interface RotPolicySettingsProps {
+  isOpen: boolean;
+  projects: Project[];
+  onClose: () => void;
+  onSaved: (policy: RotPolicy) => void;
+}
+
+type Rule = RotThresholds & { key: string };
+
+const toRules = (record: Record<string, RotThresholds>): Rule[] =>
+  Object.entries(record).map(([key, thresholds]) => ({ key, ...thresholds }));
+
+const fromRules = (rules: Rule[]): Record<string, RotThresholds> =>
+  Object.fromEntries(rules.filter(r => r.key).map(({ key, neglectedAfter, abandonedAfter }) => [key, { neglectedAfter, abandonedAfter }]));
+
+const isValid = (t: RotThresholds) =>
+  Number.isFinite(t.neglectedAfter) && Number.isFinite(t.abandonedAfter) && t.neglectedAfter >= 0 && t.abandonedAfter >= t.neglectedAfter;
+
+// Keeps what is typed, so the field can be cleared while editing; only whole numbers reach the policy
+const DaysInput: React.FC<{ value: number; onChange: (value: number) => void; title?: string; className: string }> = ({ value, onChange, title, className }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(current => parseInt(current, 10) === value ? current : String(value));
+  }, [value]);
+
+  return (
+    <input
+      type="number"
+      min={0}
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const days = parseInt(e.target.value, 10);
+        if (Number.isFinite(days)) onChange(days);
+      }}
+      onBlur={() => setDraft(String(value))}
+      title={title}
+      className={className}
+    />
+  );
+};
+
+const ThresholdInputs: React.FC<{ value: RotThresholds; onChange: (value: RotThresholds) => void }> = ({ value, onChange }) => (
+  <div className="flex gap-2 items-center">
+    <DaysInput
+      value={value.neglectedAfter}
+      onChange={(neglectedAfter) => onChange({ ...value, neglectedAfter })}
+      title="Neglected after (days)"
+      className="w-16 px-2 py-2 bg-slate-950 border border-orange-900 text-orange-200 rounded-lg text-sm text-center"
+    />
+    <DaysInput
+      value={value.abandonedAfter}
+      onChange={(abandonedAfter) => onChange({ ...value, abandonedAfter })}
+      title="Abandoned after (days)"
+      className="w-16 px-2 py-2 bg-slate-950 border border-rose-900 text-rose-200 rounded-lg text-sm text-center"
+    />
+  </div>
+);
+
+export const RotPolicySettings: React.FC<RotPolicySettingsProps> = ({ isOpen, projects, onClose, onSaved }) => {
+  const [policy, setPolicy] = useState<RotPolicy>(loadRotPolicy());
+  const [tagRules, setTagRules] = useState<Rule[]>([]);
+  const [projectRules, setProjectRules] = useState<Rule[]>([]);
+  const [holidays, setHolidays] = useState('');
+  const [newTag, setNewTag] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      const stored = loadRotPolicy();
+      setPolicy(stored);
+      setTagRules(toRules(stored.tags));
+      setProjectRules(toRules(stored.projects));
+      setHolidays(stored.holidays.join('\n'));
+      setNewTag('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const parsedHolidays = holidays.split(/[\s,]+/).filter(Boolean);
+  const badHolidays = parsedHolidays.filter(d => !/^\d{4}-\d{2}-\d{2}$/.test(d));
+  const canSave = isValid(policy.defaults) && policy.dueSoonWithin >= 0 && tagRules.every(isValid) && projectRules.every(isValid) && badHolidays.length === 0;
+  const unassigned = projects.filter(p => !projectRules.some(r => r.key === p.id));
+
+  const addTagRule = () => {
+    const key = normalizeTag(newTag);
+    if (!key || tagRules.some(r => r.key === key)) return;
+    setTagRules([...tagRules, { key, ...policy.defaults }]);
+    setNewTag('');
+  };
+
+  const handleSave = () => {
+    const next: RotPolicy = {
+      ...policy,
+      holidays: parsedHolidays,
+      tags: fromRules(tagRules),
+      projects: fromRules(projectRules),
+    };
+    saveRotPolicy(next);
+    onSaved(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center bg-slate-950/90 backdrop-blur-md p-0 md:p-6">
+      <div className="bg-slate-900 border border-slate-800 md:rounded-2xl w-full md:max-w-lg max-h-[100dvh] overflow-y-auto shadow-2xl p-6 text-left">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-white">Rot Thresholds</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors text-sm font-semibold">Close</button>
+        </div>
+        <p className="text-sm text-slate-400 mb-6">
+          Days untouched before a project turns <span className="text-orange-400 font-bold">neglected</span> and <span className="text-rose-400 font-bold">abandoned</span>. A project's own rule wins over its tags; with several tagged rules the strictest applies.
+        </p>
+
+        <div className="flex justify-between items-center mb-4">
+          <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Everything else</span>
+          <ThresholdInputs value={policy.defaults} onChange={(defaults) => setPolicy({ ...policy, defaults })} />
+        </div>
+
+        <div className="flex justify-between items-center mb-4">
+          <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Due soon within (days)</span>
+          <DaysInput
+            value={policy.dueSoonWithin}
+            onChange={(dueSoonWithin) => setPolicy({ ...policy, dueSoonWithin })}
+            className="w-16 px-2 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm text-center"
+          />
+        </div>
+
+        <label className="flex items-center gap-3 mb-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={policy.businessDays}
+            onChange={(e) => setPolicy({ ...policy, businessDays: e.target.checked })}
+            className="w-4 h-4 accent-indigo-500"
+          />
+          Count business days only (skip weekends and holidays)
+        </label>
+        {policy.businessDays && (
+          <>
+            <textarea
+              value={holidays}
+              onChange={(e) => setHolidays(e.target.value)}
+              placeholder={'Holidays, one per line\n2026-12-25'}
+              rows={3}
+              className="w-full px-3 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm font-mono mb-1"
+            />
+            {badHolidays.length > 0 && (
+              <p className="text-xs text-amber-300 mb-2">Use YYYY-MM-DD: {badHolidays.join(', ')}</p>
+            )}
+          </>
+        )}
+
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-2">By Tag</p>
+        <div className="space-y-2 mb-2">
+          {tagRules.map((rule, i) => (
+            <div key={rule.key} className="flex justify-between items-center gap-2">
+              <span className="text-pink-400 font-bold text-sm truncate">#{rule.key}</span>
+              <div className="flex gap-2 items-center">
+                <ThresholdInputs value={rule} onChange={(t) => setTagRules(tagRules.map((r, j) => j === i ? { ...r, ...t } : r))} />
+                <button onClick={() => setTagRules(tagRules.filter((_, j) => j !== i))} className="text-slate-500 hover:text-rose-400 text-sm font-bold px-2">✕</button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mb-6">
+          <input
+            type="text"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addTagRule(); }}
+            placeholder="#ops"
+            className="flex-1 px-3 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm"
+          />
+          <button onClick={addTagRule} className="bg-slate-950 hover:bg-slate-800 border border-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg transition-colors text-sm">Add</button>
+        </div>
+
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">By Project</p>
+        <div className="space-y-2 mb-2">
+          {projectRules.map((rule, i) => (
+            <div key={rule.key} className="flex justify-between items-center gap-2">
+              <span className="text-slate-200 text-sm truncate">{projects.find(p => p.id === rule.key)?.name || 'Unknown project'}</span>
+              <div className="flex gap-2 items-center">
+                <ThresholdInputs value={rule} onChange={(t) => setProjectRules(projectRules.map((r, j) => j === i ? { ...r, ...t } : r))} />
+                <button onClick={() => setProjectRules(projectRules.filter((_, j) => j !== i))} className="text-slate-500 hover:text-rose-400 text-sm font-bold px-2">✕</button>
+              </div>
+            </div>
+          ))}
+        </div>
+        {unassigned.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && setProjectRules([...projectRules, { key: e.target.value, ...policy.defaults }])}
+            className="w-full px-3 py-2 bg-slate-950 border border-slate-700 text-slate-300 rounded-lg text-sm mb-6"
+          >
+            <option value="">Add a project rule...</option>
+            {unassigned.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        )}
+
+        {!canSave && badHolidays.length === 0 && (
+          <p className="text-xs text-amber-300 mb-4">Abandoned must be at least as many days as neglected.</p>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={() => { setPolicy(DEFAULT_ROT_POLICY); setTagRules([]); setProjectRules([]); setHolidays(''); }}
+            className="flex-1 bg-slate-950 hover:bg-slate-800 border border-slate-700 text-slate-300 font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex-1 bg-slate-100 hover:bg-white text-slate-900 font-bold py-2.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import {
+  SheetConfig,
+  MappedField,
+  MAPPED_FIELDS,
+  REQUIRED_FIELDS,
+  FIELD_LABELS,
+  DEFAULT_SHEET_CONFIG,
+  loadSheetConfig,
+  saveSheetConfig,
+  validateHeaderRow,
+  indexToColumn,
+} from '../services/sheetConfig';
+import { listSheetTabs, readHeaderRow } from '../services/sheetsRepository';
+import { getHistoryActor, setHistoryActor } from '../services/historyLog';
+
+interface SheetSettingsProps {
+  isOpen: boolean;
+  canReadSheet: boolean; // Tabs and headers can only be read once signed in
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Accept either a bare ID or a pasted spreadsheet URL
+const extractSpreadsheetId = (value: string) => {
+  const match = value.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : value.trim();
+};
+
+export const SheetSettings: React.FC<SheetSettingsProps> = ({ isOpen, canReadSheet, onClose, onSaved }) => {
+  const [config, setConfig] = useState<SheetConfig>(loadSheetConfig());
+  const [actor, setActor] = useState(getHistoryActor());
+  const [tabs, setTabs] = useState<string[]>([]);
+  const [header, setHeader] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setConfig(loadSheetConfig());
+      setActor(getHistoryActor());
+      setHeader(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const setColumn = (field: MappedField, column: string, headerText?: string) => {
+    setConfig(prev => ({
+      ...prev,
+      columns: { ...prev.columns, [field]: { column: column.toUpperCase(), header: headerText } },
+    }));
+  };
+
+  const handleReadSheet = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const tabNames = await listSheetTabs(config.spreadsheetId);
+      setTabs(tabNames);
+      const sheetName = tabNames.includes(config.sheetName) ? config.sheetName : tabNames[0] || config.sheetName;
+      setConfig(prev => ({ ...prev, sheetName }));
+      setHeader(await readHeaderRow(config.spreadsheetId, sheetName));
+    } catch (err: any) {
+      console.error("Failed to read sheet", err);
+      setError(err?.result?.error?.message || err.message || 'Could not read that spreadsheet.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTabChange = async (sheetName: string) => {
+    setConfig(prev => ({ ...prev, sheetName }));
+    if (!canReadSheet) return;
+    try {
+      setHeader(await readHeaderRow(config.spreadsheetId, sheetName));
+    } catch (err: any) {
+      setError(err.message || 'Could not read the header row.');
+    }
+  };
+
+  // Without the header row only the mapping itself can be checked
+  const issues = validateHeaderRow(header, config);
+
+  const handleSave = () => {
+    saveSheetConfig({ ...config, spreadsheetId: extractSpreadsheetId(config.spreadsheetId) });
+    setHistoryActor(actor);
+    onSaved();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center bg-slate-950/90 backdrop-blur-md p-0 md:p-6">
+      <div className="bg-slate-900 border border-slate-800 md:rounded-2xl w-full md:max-w-lg max-h-[100dvh] overflow-y-auto shadow-2xl p-6 text-left">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-white">Sheet Settings</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors text-sm font-semibold">Close</button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-950/40 border border-red-900/50 text-red-200 px-4 py-3 rounded-lg text-sm">{error}</div>
+        )}
+
+        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Spreadsheet ID or URL</label>
+        <input
+          type="text"
+          value={config.spreadsheetId}
+          onChange={(e) => setConfig({ ...config, spreadsheetId: extractSpreadsheetId(e.target.value) })}
+          className="w-full px-4 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm mb-4 font-mono"
+        />
+
+        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Tab</label>
+        {tabs.length > 0 ? (
+          <select
+            value={config.sheetName}
+            onChange={(e) => handleTabChange(e.target.value)}
+            className="w-full px-4 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm mb-4"
+          >
+            {tabs.map(tab => <option key={tab} value={tab}>{tab}</option>)}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={config.sheetName}
+            onChange={(e) => setConfig({ ...config, sheetName: e.target.value })}
+            className="w-full px-4 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm mb-4"
+          />
+        )}
+
+        {canReadSheet && (
+          <button
+            onClick={handleReadSheet}
+            disabled={isLoading || !config.spreadsheetId}
+            className="w-full mb-6 bg-slate-950 hover:bg-slate-800 border border-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            {isLoading ? 'Reading sheet...' : 'Load tabs and headers'}
+          </button>
+        )}
+
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Column Mapping</p>
+        <div className="space-y-3 mb-4">
+          {MAPPED_FIELDS.map(field => {
+            const mapping = config.columns[field];
+            const required = REQUIRED_FIELDS.includes(field);
+            return (
+              <div key={field} className="grid grid-cols-[1fr_auto] md:grid-cols-[8rem_1fr] gap-2 items-center">
+                <span className="text-sm text-slate-300 col-span-2 md:col-span-1">
+                  {FIELD_LABELS[field]}{required && <span className="text-rose-400"> *</span>}
+                </span>
+                {header ? (
+                  <select
+                    value={mapping.column}
+                    onChange={(e) => {
+                      const column = e.target.value;
+                      const index = header.findIndex((_, i) => indexToColumn(i) === column);
+                      setColumn(field, column, index >= 0 ? header[index] : undefined);
+                    }}
+                    className="col-span-2 md:col-span-1 px-3 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm"
+                  >
+                    <option value="">Not in sheet</option>
+                    {header.map((title, i) => (
+                      <option key={i} value={indexToColumn(i)}>{indexToColumn(i)} · {title || '(blank)'}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="col-span-2 md:col-span-1 flex gap-2">
+                    <input
+                      type="text"
+                      value={mapping.column}
+                      onChange={(e) => setColumn(field, e.target.value, mapping.header)}
+                      placeholder="Col"
+                      className="w-16 px-3 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm font-mono uppercase"
+                    />
+                    <input
+                      type="text"
+                      value={mapping.header || ''}
+                      onChange={(e) => setColumn(field, mapping.column, e.target.value || undefined)}
+                      placeholder="Expected header (read on first load)"
+                      className="flex-1 px-3 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm"
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {issues.length > 0 && (
+          <div className="mb-4 bg-amber-900/20 border border-amber-900/50 text-amber-200 px-4 py-3 rounded-lg text-sm">
+            <p className="font-bold mb-1">Fix these mapping problems to save</p>
+            <ul className="list-disc pl-4 text-amber-200/80 space-y-1">
+              {issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Activity History</p>
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          <input
+            type="text"
+            value={config.historySheetName}
+            onChange={(e) => setConfig({ ...config, historySheetName: e.target.value })}
+            placeholder="History tab"
+            title="Tab the activity log is written to"
+            className="px-3 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm"
+          />
+          <input
+            type="text"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="Your name"
+            title="Recorded as the actor for your changes"
+            className="px-3 py-2 bg-slate-950 border border-slate-700 text-white rounded-lg text-sm"
+          />
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => { setConfig(DEFAULT_SHEET_CONFIG); setHeader(null); setTabs([]); }}
+            className="flex-1 bg-slate-950 hover:bg-slate-800 border border-slate-700 text-slate-300 font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={issues.length > 0 || !config.spreadsheetId || !config.sheetName || !config.historySheetName || config.historySheetName === config.sheetName}
+            className="flex-1 bg-slate-100 hover:bg-white text-slate-900 font-bold py-2.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
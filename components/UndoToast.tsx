@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string | null;
+  actionLabel: string;
+  onAction: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, actionLabel, onAction, onDismiss }) => {
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  if (!message) return null;
+
+  return (
+    <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-6 bg-slate-800 border border-slate-700 text-white pl-6 pr-3 py-3 rounded-2xl shadow-2xl animate-fade-in max-w-[90vw]">
+      <span className="text-sm font-bold truncate">{message}</span>
+      <button
+        onClick={onAction}
+        className="shrink-0 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-xs font-black uppercase tracking-widest transition-colors"
+      >
+        {actionLabel}
+      </button>
+      <button onClick={onDismiss} className="shrink-0 text-slate-500 hover:text-white text-sm font-bold px-2">✕</button>
+    </div>
+  );
+};
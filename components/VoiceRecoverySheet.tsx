@@ -34,7 +34,7 @@ export const VoiceRecoverySheet: React.FC<Props> = ({
     <div
       role="dialog"
       aria-modal="true"
-      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 touch-manipulation"
+      className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 touch-manipulation"
     >
       <div
         key={visibleKey}
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { SpeechSettings, DEFAULT_SPEECH_SETTINGS, loadSpeechSettings, saveSpeechSettings } from '../services/speechSettings';
+import { speakText, stopSpeaking } from '../services/geminiService';
+import { isSpeechRecognitionAvailable } from '../services/speechRecognition';
+
+interface VoiceSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SAMPLE_TEXT = 'Three projects need attention this week. **Alpha** is overdue, and nobody has touched Beta in twelve days.';
+
+export const VoiceSettings: React.FC<VoiceSettingsProps> = ({ isOpen, onClose }) => {
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings());
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (isOpen) setSettings(loadSpeechSettings());
+  }, [isOpen]);
+
+  // Some browsers load their voices after the page
+  useEffect(() => {
+    if (!window.speechSynthesis) return;
+    const refresh = () => setVoices(window.speechSynthesis.getVoices());
+    refresh();
+    window.speechSynthesis.addEventListener('voiceschanged', refresh);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', refresh);
+  }, []);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    stopSpeaking();
+    onClose();
+  };
+
+  const handleSave = () => {
+    saveSpeechSettings(settings);
+    handleClose();
+  };
+
+  // English voices first, then by language and name
+  const sortedVoices = [...voices].sort((a, b) =>
+    Number(b.lang.startsWith('en')) - Number(a.lang.startsWith('en')) || a.lang.localeCompare(b.lang) || a.name.localeCompare(b.name));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center bg-slate-950/90 backdrop-blur-md p-0 md:p-6">
+      <div className="bg-slate-900 border border-slate-800 md:rounded-2xl w-full md:max-w-lg max-h-[100dvh] overflow-y-auto shadow-2xl p-6 text-left">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-white">Voice</h2>
+          <button onClick={handleClose} className="text-slate-500 hover:text-white transition-colors text-sm font-semibold">Close</button>
+        </div>
+        <p className="text-sm text-slate-400 mb-6">
+          How the analyst reads its answers aloud. Saved on this device only.
+        </p>
+
+        {!window.speechSynthesis && (
+          <p className="text-xs text-amber-300 mb-4">This browser cannot read text aloud.</p>
+        )}
+
+        <label className="flex items-center gap-3 mb-6 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={settings.autoSpeak}
+            onChange={(e) => setSettings({ ...settings, autoSpeak: e.target.checked })}
+            className="w-4 h-4 accent-indigo-500"
+          />
+          Read answers to voice messages aloud
+        </label>
+
+        {isSpeechRecognitionAvailable() && (
+          <label className="flex items-start gap-3 mb-6 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.onDeviceRecognition}
+              onChange={(e) => setSettings({ ...settings, onDeviceRecognition: e.target.checked })}
+              className="w-4 h-4 mt-0.5 accent-indigo-500"
+            />
+            <span>
+              Transcribe with the browser's speech recognition
+              <span className="block text-xs text-slate-500 mt-0.5">
+                Quick commands like "touch Billing" or "what's neglected" then run without the assistant. Some browsers send audio to their own service. Hands-free mode always uses the assistant.
+              </span>
+            </span>
+          </label>
+        )}
+
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Voice</p>
+        <select
+          value={settings.voiceURI}
+          onChange={(e) => setSettings({ ...settings, voiceURI: e.target.value })}
+          className="w-full px-3 py-2 bg-slate-950 border border-slate-700 text-slate-200 rounded-lg text-sm mb-6"
+        >
+          <option value="">Automatic (an English voice)</option>
+          {sortedVoices.map(v => (
+            <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang}){v.localService ? '' : ' · online'}</option>
+          ))}
+        </select>
+
+        <div className="flex justify-between items-center mb-4 gap-4">
+          <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider shrink-0">Speed</span>
+          <input
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.1}
+            value={settings.rate}
+            onChange={(e) => setSettings({ ...settings, rate: parseFloat(e.target.value) })}
+            className="flex-1 accent-indigo-500"
+          />
+          <span className="w-10 text-right text-sm text-slate-300 tabular-nums">{settings.rate.toFixed(1)}×</span>
+        </div>
+
+        <div className="flex justify-between items-center mb-6 gap-4">
+          <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider shrink-0">Pitch</span>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={settings.pitch}
+            onChange={(e) => setSettings({ ...settings, pitch: parseFloat(e.target.value) })}
+            className="flex-1 accent-indigo-500"
+          />
+          <span className="w-10 text-right text-sm text-slate-300 tabular-nums">{settings.pitch.toFixed(1)}</span>
+        </div>
+
+        <button
+          onClick={() => speakText(SAMPLE_TEXT, settings)}
+          disabled={!window.speechSynthesis}
+          className="w-full bg-slate-950 hover:bg-slate-800 border border-slate-700 text-slate-200 font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm disabled:opacity-50"
+        >
+          Test voice
+        </button>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={() => setSettings(DEFAULT_SPEECH_SETTINGS)}
+            className="flex-1 bg-slate-950 hover:bg-slate-800 border border-slate-700 text-slate-300 font-semibold py-2.5 px-4 rounded-lg transition-colors text-sm"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-slate-100 hover:bg-white text-slate-900 font-bold py-2.5 px-4 rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
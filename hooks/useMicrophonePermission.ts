@@ -33,13 +33,19 @@ export function useMicrophonePermission() {
     }
   }, []);
 
+  // Only a probe: release the microphone straight away
+  const probeMicrophone = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    stream.getTracks().forEach(t => t.stop());
+  };
+
   // Request microphone access with hardened duplicate/overlay handling
   const requestPermission = useCallback(async () => {
     if (requestingRef.current) return false;
     requestingRef.current = true;
 
     try {
-      await navigator.mediaDevices.getUserMedia({ audio: true });
+      await probeMicrophone();
       setState('granted');
       requestingRef.current = false;
       return true;
@@ -48,7 +54,7 @@ export function useMicrophonePermission() {
       if (!visibilityRecoveredRef.current) {
         try {
           await new Promise(res => setTimeout(res, 500));
-          await navigator.mediaDevices.getUserMedia({ audio: true });
+          await probeMicrophone();
           setState('granted');
           requestingRef.current = false;
           return true;
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getProjectRepository, StorageBackend } from '../services/projectRepository';
+import {
+  QueuedMutation,
+  ReplayResult,
+  enqueueMutation,
+  listQueuedMutations,
+  removeQueuedMutation,
+  replayQueue,
+} from '../services/offlineQueue';
+
+type Options = {
+  backend: StorageBackend;
+  enabled: boolean; // Replaying needs a signed-in session for the Sheets backend
+  onReplayed: (result: ReplayResult) => void;
+};
+
+export function useOfflineQueue({ backend, enabled, onReplayed }: Options) {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const replayingRef = useRef(false);
+  const onReplayedRef = useRef(onReplayed);
+  onReplayedRef.current = onReplayed;
+
+  const refreshCount = useCallback(async () => {
+    try {
+      const entries = await listQueuedMutations(backend);
+      setPendingCount(entries.length);
+    } catch (err) {
+      console.warn("Offline queue unavailable", err);
+    }
+  }, [backend]);
+
+  const queueMutation = useCallback(async (mutation: QueuedMutation) => {
+    await enqueueMutation(backend, mutation);
+    await refreshCount();
+  }, [backend, refreshCount]);
+
+  // Drop a queued change for good, e.g. once its conflict was resolved
+  const discardMutation = useCallback(async (seq: number) => {
+    await removeQueuedMutation(seq);
+    await refreshCount();
+  }, [refreshCount]);
+
+  // Replay whatever is pending; safe to call repeatedly
+  const replay = useCallback(async () => {
+    if (!enabled || replayingRef.current || !navigator.onLine) return;
+    replayingRef.current = true;
+
+    try {
+      const result = await replayQueue(getProjectRepository());
+      await refreshCount();
+      if (result.replayed > 0 || result.conflict || result.errors.length > 0) {
+        onReplayedRef.current(result);
+      }
+    } catch (err) {
+      console.error("Offline replay failed", err);
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [enabled, refreshCount]);
+
+  useEffect(() => {
+    refreshCount().then(() => replay());
+  }, [refreshCount, replay]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [replay]);
+
+  return {
+    isOnline,
+    pendingCount,
+    queueMutation,
+    discardMutation,
+    replay,
+  };
+}
@@ -1,87 +1,297 @@
-import { Handler } from '@netlify/functions';
-import { GoogleGenAI } from '@google/genai';
+import { stream } from '@netlify/functions';
+import { Content, FunctionCall, FunctionDeclaration, Part, Type } from '@google/genai';
+import {
+  AssistantProvider,
+  ChatRequest,
+  ProviderConfigError,
+  SUPPORTED_AUDIO_FORMATS,
+  createProvider,
+  normalizeAudioType,
+} from '../lib/providers';
+import { buildSystemInstruction } from '../lib/systemInstruction';
 
 const HEADERS = {
   'Content-Type': 'application/json',
 };
 
-export const handler: Handler = async (event) => {
+const STREAM_HEADERS = {
+  'Content-Type': 'application/x-ndjson',
+  'Cache-Control': 'no-cache',
+};
+
+const STATUS_WORDS = ['New', 'Active', 'Extended', 'Neglected', 'Abandoned', 'Completed', 'Archived'];
+
+const DETAIL_PROPERTIES = {
+  name: { type: Type.STRING, description: 'Project name' },
+  owner: { type: Type.STRING, description: 'Project lead' },
+  tags: { type: Type.STRING, description: 'Space-separated hashtags, e.g. "#client #q4"' },
+  links: { type: Type.STRING, description: 'Related URLs' },
+  dueDate: { type: Type.STRING, description: 'Due date as YYYY-MM-DD, or empty to clear it' },
+};
+
+/**
+ * Tools the model may call. They run in the browser, which holds the user's
+ * Sheets token: the function returns the pending calls, the client runs them
+ * and posts the results back with the turns so far.
+ */
+const TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'searchProjectHistory',
+    description: 'Search every project in the project index, including completed and archived ones, by name, lead, status or tag. Use it for questions about projects that are not in the current conversation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'Text to match against project name, lead, status and tags' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'updateProjectStatus',
+    description: "Change a project's status. The user confirms before anything is written.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        project: { type: Type.STRING, description: 'Name of the project as listed in the portfolio' },
+        status: { type: Type.STRING, format: 'enum', enum: STATUS_WORDS, description: 'The new status' },
+      },
+      required: ['project', 'status'],
+    },
+  },
+  {
+    name: 'updateProjectDetails',
+    description: "Change a project's name, lead, tags, links or due date. Only pass the fields that change. The user confirms before anything is written.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        project: { type: Type.STRING, description: 'Current name of the project as listed in the portfolio' },
+        ...DETAIL_PROPERTIES,
+      },
+      required: ['project'],
+    },
+  },
+  {
+    name: 'createProject',
+    description: 'Add a new project to the index. The user confirms before anything is written.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: DETAIL_PROPERTIES,
+      required: ['name'],
+    },
+  },
+];
+
+type ToolResult = { id?: string; name: string; response: unknown };
+
+// Function responses must be objects; lists and primitives are wrapped
+const toFunctionResponsePart = ({ id, name, response }: ToolResult): Part => ({
+  functionResponse: {
+    id,
+    name,
+    response: response && typeof response === 'object' && !Array.isArray(response)
+      ? response as Record<string, unknown>
+      : { result: response },
+  },
+});
+
+const toToolCalls = (calls: FunctionCall[]) =>
+  calls.map(call => ({ id: call.id, name: call.name, args: call.args || {} }));
+
+/**
+ * Stream the reply as newline-delimited JSON events: the transcript, text as
+ * it is generated, then a `done` event shaped like the non-streaming body.
+ */
+async function* streamReply(
+  provider: AssistantProvider,
+  request: ChatRequest,
+  transcript: string,
+  userTurn: Content
+): AsyncGenerator<string> {
+  const event = (payload: Record<string, unknown>) => JSON.stringify(payload) + '\n';
+
+  try {
+    yield event({ type: 'transcript', transcript });
+
+    let text = '';
+    const functionCalls: FunctionCall[] = [];
+    for await (const chunk of provider.chatStream(request)) {
+      const delta = chunk.text || '';
+      if (delta) {
+        text += delta;
+        yield event({ type: 'text', text: delta });
+      }
+      functionCalls.push(...(chunk.functionCalls || []));
+    }
+
+    const modelTurn: Content = {
+      role: 'model',
+      parts: [
+        ...(text ? [{ text }] : []),
+        ...functionCalls.map(functionCall => ({ functionCall })),
+      ],
+    };
+    yield event({
+      type: 'done',
+      transcript,
+      response: functionCalls.length > 0 ? '' : text,
+      turns: [userTurn, modelTurn],
+      ...(functionCalls.length > 0 ? { toolCalls: toToolCalls(functionCalls) } : {}),
+    });
+  } catch (err: any) {
+    console.error('[gemini] Stream error:', err.message);
+    yield event({ type: 'error', error: err.message || 'Server error', response: 'The assistant failed on the server. Please try again.' });
+  }
+}
+
+// Streaming-capable: ordinary JSON bodies still work for errors and non-streamed turns
+export const handler = stream(async (event) => {
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    let provider: AssistantProvider;
+    try {
+      provider = createProvider();
+    } catch (err: any) {
+      if (!(err instanceof ProviderConfigError)) throw err;
       return {
         statusCode: 500,
         headers: HEADERS,
         body: JSON.stringify({
-          error: 'Missing Gemini API key',
+          error: err.message,
           transcript: '',
           response: 'Server configuration error. Please contact support.',
         }),
       };
     }
 
-    const { audioBase64, messages } = JSON.parse(event.body || '{}');
+    // A turn is recorded audio, typed text, or the results of tools the model asked for
+    // Insights requests carry only the portfolio
+    const { audioBase64, audioMimeType, text, messages, toolResults, portfolio, transcribeOnly, insights, stream: wantsStream } = JSON.parse(event.body || '{}');
+    const typedText = typeof text === 'string' ? text.trim() : '';
+    const results: ToolResult[] = Array.isArray(toolResults) ? toolResults : [];
+
+    if (insights) {
+      if (!portfolio || !Array.isArray(portfolio.projects) || portfolio.projects.length === 0) {
+        return {
+          statusCode: 400,
+          headers: HEADERS,
+          body: JSON.stringify({ error: 'No portfolio provided', response: 'There are no projects to review yet.' }),
+        };
+      }
+      return {
+        statusCode: 200,
+        headers: HEADERS,
+        body: JSON.stringify({ insights: await provider.reviewPortfolio(buildSystemInstruction(portfolio)) }),
+      };
+    }
 
-    if (!audioBase64) {
+    if (!audioBase64 && !typedText && results.length === 0) {
       return {
         statusCode: 400,
         headers: HEADERS,
         body: JSON.stringify({
-          error: 'No audio data provided',
+          error: 'No message provided',
           transcript: '',
-          response: 'No audio was received. Please try again.',
+          response: 'No audio or text was received. Please try again.',
         }),
       };
     }
 
-    const ai = new GoogleGenAI({ apiKey });
+    // Refuse audio the model cannot read rather than let it fail as unintelligible
+    const audioType = normalizeAudioType(audioMimeType);
+    if (audioBase64 && !audioType) {
+      return {
+        statusCode: 415,
+        headers: HEADERS,
+        body: JSON.stringify({
+          error: 'unsupported_audio',
+          transcript: '',
+          response: `${audioMimeType ? `Audio recorded as ${audioMimeType}` : 'Audio in an unknown format'} can't be transcribed. Please use ${SUPPORTED_AUDIO_FORMATS}.`,
+        }),
+      };
+    }
+
+    // Spoken answers to confirmations are read by the client, not the model
+    if (transcribeOnly && audioBase64) {
+      return {
+        statusCode: 200,
+        headers: HEADERS,
+        body: JSON.stringify({ transcript: await provider.transcribe(audioBase64, audioType!, 'answer'), response: '' }),
+      };
+    }
 
-    // Build conversation history as content parts
-    const historyParts = (messages || []).map((m: any) => ({
+    // Build conversation history as content parts; pending tool turns arrive here too
+    const historyParts: Content[] = (messages || []).map((m: any) => ({
       role: m.role,
       parts: m.parts || [{ text: '' }],
     }));
 
-    // Add the new audio message
-    const contents = [
-      ...historyParts,
-      {
-        role: 'user',
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'audio/webm',
-              data: audioBase64,
-            },
-          },
-        ],
-      },
-    ];
+    // Voice turns continue as their transcript
+    const transcript = audioBase64 ? await provider.transcribe(audioBase64, audioType!, 'message') : typedText;
+    if (audioBase64 && !transcript) {
+      return {
+        statusCode: 422,
+        headers: HEADERS,
+        body: JSON.stringify({
+          error: 'unintelligible_audio',
+          transcript: '',
+          response: "I couldn't make out what you said. Please try again a little closer to the microphone.",
+        }),
+      };
+    }
+
+    // Add the new message
+    const userParts: Part[] = results.length > 0
+      ? results.map(toFunctionResponsePart)
+      : [{ text: transcript }];
+    const userTurn: Content = { role: 'user', parts: userParts };
+    const contents = [...historyParts, userTurn];
 
-    // Use the correct @google/genai API
-    const result = await ai.models.generateContent({
-      model: 'gemini-2.0-flash',
+    const request: ChatRequest = {
       contents,
-    });
+      systemInstruction: buildSystemInstruction(portfolio),
+      tools: TOOLS,
+    };
+
+    if (wantsStream) {
+      return {
+        statusCode: 200,
+        headers: STREAM_HEADERS,
+        body: streamReply(provider, request, transcript, userTurn),
+      };
+    }
 
-    const responseText = result.text || '';
+    const result = await provider.chat(request);
 
-    // TODO: Remove this log after debugging
-    console.log('[gemini] Success response:', JSON.stringify({ transcript: '🎤 Voice message', response: responseText }));
+    const modelTurn = result.modelTurn;
+    // Turns added this round; the client sends them back with the tool results
+    const turns = modelTurn ? [userTurn, modelTurn] : [userTurn];
+    const functionCalls = result.functionCalls;
+
+    if (functionCalls.length > 0) {
+      return {
+        statusCode: 200,
+        headers: HEADERS,
+        body: JSON.stringify({
+          transcript,
+          response: '',
+          turns,
+          toolCalls: toToolCalls(functionCalls),
+        }),
+      };
+    }
+
+    const responseText = result.text;
 
     return {
       statusCode: 200,
       headers: HEADERS,
       body: JSON.stringify({
-        transcript: '🎤 Voice message',
+        transcript,
         response: responseText,
+        turns,
       }),
     };
   } catch (err: any) {
     const errorMessage = err.message || 'Server error';
-    
-    // TODO: Remove this log after debugging
-    console.error('[gemini] Error:', errorMessage);
 
     return {
       statusCode: 500,
@@ -89,8 +299,8 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({
         error: errorMessage,
         transcript: '',
-        response: 'Voice processing failed on server. Please try again.',
+        response: 'The assistant failed on the server. Please try again.',
       }),
     };
   }
-};
+});
@@ -0,0 +1,72 @@
+import { schedule } from '@netlify/functions';
+import { DEFAULT_SHEET_CONFIG, SheetConfig } from '../../services/sheetConfig';
+import { DEFAULT_ROT_POLICY, RotPolicy } from '../../services/rotPolicy';
+import { parseServiceAccount, readProjects } from '../lib/googleSheets';
+import { buildDigest, summarizeDigest } from '../lib/digest';
+import { createDeliveries } from '../lib/digestDelivery';
+
+/**
+ * Monday morning digest of the portfolio, read with a service account.
+ *
+ * GOOGLE_SERVICE_ACCOUNT_JSON  key file of a service account the sheet is shared with
+ * DIGEST_SHEET_CONFIG          sheet settings as JSON, same shape the dashboard stores;
+ *                              or just DIGEST_SPREADSHEET_ID with the default columns
+ * DIGEST_ROT_POLICY            rot policy as JSON, defaults otherwise
+ * DIGEST_AI_SUMMARY            'true' to open with a summary from the assistant's provider
+ *
+ * DIGEST_DELIVERY              required; the channels described in digestDelivery
+ */
+
+const SCHEDULE = '0 8 * * 1';
+
+const parseEnvJson = (name: string) => {
+  const value = process.env[name];
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+};
+
+const digestSheetConfig = (): SheetConfig => {
+  const stored = parseEnvJson('DIGEST_SHEET_CONFIG');
+  return {
+    ...DEFAULT_SHEET_CONFIG,
+    ...(process.env.DIGEST_SPREADSHEET_ID ? { spreadsheetId: process.env.DIGEST_SPREADSHEET_ID } : {}),
+    ...stored,
+    columns: { ...DEFAULT_SHEET_CONFIG.columns, ...stored.columns },
+  };
+};
+
+const digestRotPolicy = (): RotPolicy => ({ ...DEFAULT_ROT_POLICY, ...parseEnvJson('DIGEST_ROT_POLICY') });
+
+export const handler = schedule(SCHEDULE, async () => {
+  try {
+    const credentials = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+    if (!credentials) throw new Error('Missing GOOGLE_SERVICE_ACCOUNT_JSON');
+
+    // Configuration problems surface before the sheet is read
+    const deliveries = createDeliveries();
+    const projects = await readProjects(digestSheetConfig(), parseServiceAccount(credentials));
+    const digest = buildDigest(projects, digestRotPolicy());
+    if (process.env.DIGEST_AI_SUMMARY === 'true') {
+      digest.aiSummary = await summarizeDigest(digest);
+    }
+
+    // One failing channel should not keep the digest from the others
+    const results = await Promise.allSettled(deliveries.map(d => d.deliver(digest)));
+    const failed = results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return [];
+      console.error(`[weekly-digest] ${deliveries[i].name} delivery failed:`, result.reason);
+      return [deliveries[i].name];
+    });
+
+    console.log(`[weekly-digest] ${projects.length} projects, delivered via ${deliveries.map(d => d.name).join(', ')}`
+      + (failed.length > 0 ? `; failed: ${failed.join(', ')}` : ''));
+    return { statusCode: failed.length === deliveries.length ? 502 : 200 };
+  } catch (err: any) {
+    console.error('[weekly-digest] Error:', err.message);
+    return { statusCode: 500 };
+  }
+});
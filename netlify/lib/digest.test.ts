@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Project, ProjectStatus, RotLevel } from '../../types';
+import { DEFAULT_ROT_POLICY } from '../../services/rotPolicy';
+import { buildDigest, digestSubject, digestToMarkdown } from './digest';
+
+const now = new Date(2026, 9, 19, 12);
+
+const daysAgo = (days: number) => new Date(2026, 9, 19 - days, 12).toISOString();
+
+const project = (id: string, touchedDaysAgo: number, overrides: Partial<Project> = {}): Project => ({
+  id,
+  name: id,
+  lastTouched: daysAgo(touchedDaysAgo),
+  status: ProjectStatus.ACTIVE,
+  links: '',
+  tags: '',
+  ...overrides,
+});
+
+// Default thresholds: neglected after 5 days, abandoned after 10
+const projects = [
+  project('slipped', 8, { owner: 'Ana' }),
+  project('crossed', 13, { owner: 'Ana' }),
+  project('long-gone', 30, { owner: 'Ben' }),
+  project('overdue', 2, { dueDate: '2026-10-16' }),
+  project('fresh', 1, { owner: 'Ben' }),
+  project('shipped', 3, { status: ProjectStatus.COMPLETED }),
+  project('shipped-earlier', 20, { status: ProjectStatus.COMPLETED }),
+];
+
+const ids = (entries: { id: string }[]) => entries.map(e => e.id);
+
+describe('buildDigest', () => {
+  const digest = buildDigest(projects, DEFAULT_ROT_POLICY, now);
+
+  it('reports projects that reached a level during the week', () => {
+    expect(ids(digest.newlyNeglected)).toEqual(['slipped']);
+    expect(ids(digest.newlyAbandoned)).toEqual(['crossed', 'overdue']);
+  });
+
+  it('leaves out projects that were already at that level a week ago', () => {
+    expect(ids(digest.newlyAbandoned)).not.toContain('long-gone');
+  });
+
+  it('lists only projects completed during the week', () => {
+    expect(ids(digest.completed)).toEqual(['shipped']);
+  });
+
+  it('groups stale open projects by owner, unassigned last', () => {
+    expect(digest.staleByOwner.map(o => [o.owner, ids(o.projects)])).toEqual([
+      ['Ana', ['crossed', 'slipped']],
+      ['Ben', ['long-gone']],
+      ['', ['overdue']],
+    ]);
+    expect(digest.staleByOwner[2].projects[0].rotLevel).toBe(RotLevel.ABANDONED);
+  });
+
+  it('counts the portfolio', () => {
+    expect(digest.totals).toEqual({ projects: 7, open: 5, neglected: 1, abandoned: 3 });
+    expect(digest.periodStart).toBe(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString());
+  });
+
+  it('renders the week in the subject and body', () => {
+    expect(digestSubject(digest)).toContain('2 newly abandoned, 1 newly neglected, 1 completed');
+    const markdown = digestToMarkdown(digest);
+    expect(markdown).toContain('### Unassigned');
+    expect(markdown).toContain('- **slipped** (8d untouched, Ana)');
+  });
+});
@@ -0,0 +1,183 @@
+import { Project, ProjectAnalysis, ProjectStatus, RotLevel } from '../../types';
+import { analyzeProjects, effectiveRotLevel } from '../../services/dataService';
+import { RotPolicy } from '../../services/rotPolicy';
+import { createProvider } from './providers';
+
+/**
+ * The weekly portfolio digest: what went stale or got finished since last
+ * week, and who has stale work on their plate.
+ */
+
+export interface DigestEntry {
+  id: string;
+  name: string;
+  owner: string;
+  status: ProjectStatus;
+  daysSinceTouch: number;
+  rotLevel: RotLevel;     // Effective level, deadlines folded in
+  dueDate?: string;
+}
+
+export interface OwnerStaleList {
+  owner: string;          // Empty for projects without a lead
+  projects: DigestEntry[];
+}
+
+export interface PortfolioDigest {
+  generatedAt: string;    // ISO Date string
+  periodStart: string;    // One week before generatedAt
+  newlyAbandoned: DigestEntry[];
+  newlyNeglected: DigestEntry[];
+  completed: DigestEntry[];
+  staleByOwner: OwnerStaleList[];
+  totals: {
+    projects: number;
+    open: number;
+    neglected: number;
+    abandoned: number;
+  };
+  aiSummary?: string;
+}
+
+const WEEK_MS = 1000 * 60 * 60 * 24 * 7;
+
+const ROT_ORDER: Record<RotLevel, number> = {
+  [RotLevel.FRESH]: 0,
+  [RotLevel.NEGLECTED]: 1,
+  [RotLevel.ABANDONED]: 2,
+};
+
+const isClosed = (project: Project) =>
+  project.status === ProjectStatus.COMPLETED || project.status === ProjectStatus.ARCHIVED;
+
+const toEntry = (analysis: ProjectAnalysis): DigestEntry => ({
+  id: analysis.project.id,
+  name: analysis.project.name,
+  owner: analysis.project.owner || '',
+  status: analysis.project.status,
+  daysSinceTouch: analysis.daysSinceTouch,
+  rotLevel: effectiveRotLevel(analysis),
+  dueDate: analysis.project.dueDate || undefined,
+});
+
+const byStaleness = (a: DigestEntry, b: DigestEntry) =>
+  ROT_ORDER[b.rotLevel] - ROT_ORDER[a.rotLevel] || b.daysSinceTouch - a.daysSinceTouch;
+
+/**
+ * Compare the portfolio now with how it stood a week ago. A project is newly
+ * neglected or abandoned when it reached that level during the week; one
+ * touched during the week counts as fresh a week ago. Completions are projects
+ * marked completed during the week, which also touches them.
+ */
+export const buildDigest = (projects: Project[], policy: RotPolicy, now: Date = new Date()): PortfolioDigest => {
+  const weekAgo = new Date(now.getTime() - WEEK_MS);
+  const current = analyzeProjects(projects, policy, now);
+  const previous = new Map(analyzeProjects(projects, policy, weekAgo).map(a => [a.project.id, a]));
+
+  const levelBefore = (analysis: ProjectAnalysis): RotLevel => {
+    const before = previous.get(analysis.project.id);
+    if (!before || new Date(analysis.project.lastTouched) > weekAgo) return RotLevel.FRESH;
+    return effectiveRotLevel(before);
+  };
+
+  const open = current.filter(a => !isClosed(a.project));
+  const stale = open.map(toEntry).filter(e => e.rotLevel !== RotLevel.FRESH).sort(byStaleness);
+  const newly = (level: RotLevel) => open
+    .filter(a => effectiveRotLevel(a) === level && ROT_ORDER[levelBefore(a)] < ROT_ORDER[level])
+    .map(toEntry)
+    .sort(byStaleness);
+
+  const owners = new Map<string, DigestEntry[]>();
+  stale.forEach(entry => owners.set(entry.owner, [...(owners.get(entry.owner) || []), entry]));
+
+  return {
+    generatedAt: now.toISOString(),
+    periodStart: weekAgo.toISOString(),
+    newlyAbandoned: newly(RotLevel.ABANDONED),
+    newlyNeglected: newly(RotLevel.NEGLECTED),
+    completed: current
+      .filter(a => a.project.status === ProjectStatus.COMPLETED && new Date(a.project.lastTouched) > weekAgo)
+      .map(toEntry),
+    // Owners with the most stale projects first, unassigned projects last
+    staleByOwner: [...owners.entries()]
+      .map(([owner, entries]) => ({ owner, projects: entries }))
+      .sort((a, b) => (!a.owner ? 1 : 0) - (!b.owner ? 1 : 0) || b.projects.length - a.projects.length || a.owner.localeCompare(b.owner)),
+    totals: {
+      projects: projects.length,
+      open: open.length,
+      neglected: stale.filter(e => e.rotLevel === RotLevel.NEGLECTED).length,
+      abandoned: stale.filter(e => e.rotLevel === RotLevel.ABANDONED).length,
+    },
+  };
+};
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+const entryLine = (entry: DigestEntry, extra: string[]): string => {
+  const details = [
+    `${entry.daysSinceTouch}d untouched`,
+    ...extra,
+    ...(entry.dueDate ? [`due ${entry.dueDate}`] : []),
+  ];
+  return `- **${entry.name}** (${details.join(', ')})`;
+};
+
+const section = (title: string, entries: DigestEntry[], empty: string): string[] =>
+  [`## ${title}`, '', ...(entries.length > 0 ? entries.map(e => entryLine(e, e.owner ? [e.owner] : [])) : [`_${empty}_`]), ''];
+
+export const digestSubject = (digest: PortfolioDigest): string =>
+  `Portfolio digest for the week of ${formatDate(digest.periodStart)}: `
+  + `${digest.newlyAbandoned.length} newly abandoned, ${digest.newlyNeglected.length} newly neglected, ${digest.completed.length} completed`;
+
+/**
+ * The digest as Markdown; also used as the plain-text email body.
+ */
+export const digestToMarkdown = (digest: PortfolioDigest): string => {
+  const { totals } = digest;
+  const lines = [
+    '# Portfolio digest',
+    '',
+    `_${formatDate(digest.periodStart)} to ${formatDate(digest.generatedAt)}. `
+      + `${totals.open} open of ${totals.projects} projects: ${totals.neglected} neglected, ${totals.abandoned} abandoned._`,
+    '',
+  ];
+
+  if (digest.aiSummary) lines.push('## Summary', '', digest.aiSummary, '');
+
+  lines.push(
+    ...section('Newly abandoned', digest.newlyAbandoned, 'Nothing was abandoned this week.'),
+    ...section('Newly neglected', digest.newlyNeglected, 'Nothing slipped into neglect this week.'),
+    ...section('Completed', digest.completed, 'Nothing was completed this week.'),
+    '## Stale projects by owner',
+    '',
+  );
+
+  if (digest.staleByOwner.length === 0) lines.push('_No open project is stale._', '');
+  digest.staleByOwner.forEach(({ owner, projects }) => {
+    lines.push(`### ${owner || 'Unassigned'}`, '', ...projects.map(p => entryLine(p, [p.rotLevel.toLowerCase()])), '');
+  });
+
+  return lines.join('\n');
+};
+
+const SUMMARY_INSTRUCTION = 'You write the opening paragraph of a weekly project portfolio digest for a small team. '
+  + 'In three or four plain sentences, say what changed this week and what most needs attention. '
+  + 'Use only the facts in the digest. No headings, lists or greetings.';
+
+/**
+ * A short written summary from the assistant's model. The digest goes out
+ * without one if the model is unavailable.
+ */
+export const summarizeDigest = async (digest: PortfolioDigest): Promise<string | undefined> => {
+  try {
+    const reply = await createProvider().chat({
+      contents: [{ role: 'user', parts: [{ text: digestToMarkdown(digest) }] }],
+      systemInstruction: SUMMARY_INSTRUCTION,
+      tools: [],
+    });
+    return reply.text.trim() || undefined;
+  } catch (err: any) {
+    console.error("Digest summary failed", err);
+    return undefined;
+  }
+};
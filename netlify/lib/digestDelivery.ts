@@ -0,0 +1,109 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { PortfolioDigest, digestSubject, digestToMarkdown } from './digest';
+import { sendMail } from './smtp';
+
+/**
+ * Where the weekly digest goes. DIGEST_DELIVERY lists the channels, comma
+ * separated, and must be set; there is no default channel:
+ *
+ * - smtp: email via SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ('true' for TLS
+ *   from the start), SMTP_USER, SMTP_PASSWORD, DIGEST_EMAIL_FROM and
+ *   DIGEST_EMAIL_TO (comma separated)
+ * - webhook: POST of { subject, text, digest } as JSON to DIGEST_WEBHOOK_URL
+ * - markdown: a file at DIGEST_MARKDOWN_PATH (/tmp/portfolio-digest.md), for
+ *   local and dev runs only. A deployed function's disk is discarded when the
+ *   invocation ends, so the file never reaches anyone there.
+ */
+
+export interface DigestDelivery {
+  readonly name: string;
+  deliver(digest: PortfolioDigest): Promise<void>;
+}
+
+/**
+ * The deployment is missing something a delivery channel needs.
+ */
+export class DeliveryConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliveryConfigError';
+  }
+}
+
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_MARKDOWN_PATH = '/tmp/portfolio-digest.md';
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) throw new DeliveryConfigError(`Missing ${name}`);
+  return value;
+};
+
+const createSmtpDelivery = (): DigestDelivery => {
+  const options = {
+    host: requireEnv('SMTP_HOST'),
+    port: Number(process.env.SMTP_PORT || DEFAULT_SMTP_PORT),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  };
+  const from = requireEnv('DIGEST_EMAIL_FROM');
+  const to = requireEnv('DIGEST_EMAIL_TO').split(',').map(a => a.trim()).filter(Boolean);
+
+  return {
+    name: 'smtp',
+    deliver: digest => sendMail(options, { from, to, subject: digestSubject(digest), text: digestToMarkdown(digest) }),
+  };
+};
+
+const createWebhookDelivery = (): DigestDelivery => {
+  const url = requireEnv('DIGEST_WEBHOOK_URL');
+
+  return {
+    name: 'webhook',
+    async deliver(digest) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject: digestSubject(digest), text: digestToMarkdown(digest), digest }),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+};
+
+const createMarkdownDelivery = (): DigestDelivery => {
+  const path = process.env.DIGEST_MARKDOWN_PATH || DEFAULT_MARKDOWN_PATH;
+
+  return {
+    name: 'markdown',
+    async deliver(digest) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, digestToMarkdown(digest), 'utf8');
+    },
+  };
+};
+
+export const createDeliveries = (): DigestDelivery[] => {
+  const names = (process.env.DIGEST_DELIVERY || '').split(',').map(n => n.trim()).filter(Boolean);
+  // Without a channel the digest would be built and silently dropped
+  if (names.length === 0) {
+    throw new DeliveryConfigError('Missing DIGEST_DELIVERY: set it to smtp, webhook or markdown (local runs only)');
+  }
+
+  return names.map(name => {
+    switch (name) {
+      case 'smtp':
+        return createSmtpDelivery();
+      case 'webhook':
+        return createWebhookDelivery();
+      case 'markdown':
+        return createMarkdownDelivery();
+      default:
+        throw new DeliveryConfigError(`Unknown digest delivery "${name}"`);
+    }
+  });
+};
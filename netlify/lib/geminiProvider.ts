@@ -0,0 +1,113 @@
+import { GenerateContentParameters, GoogleGenAI, Type } from '@google/genai';
+import type { AssistantProvider, ChatRequest, TranscriptionKind } from './providers';
+
+const TRANSCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    transcript: { type: Type.STRING, description: 'Exactly what the speaker said, without commentary' },
+    intelligible: { type: Type.BOOLEAN, description: 'False for silence, noise or speech that cannot be made out' },
+  },
+  required: ['transcript', 'intelligible'],
+};
+
+const INSIGHTS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Two or three sentences on the overall health of the portfolio' },
+    actionItems: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Concrete next steps across the portfolio, most urgent first',
+    },
+    projects: {
+      type: Type.ARRAY,
+      description: 'One entry per listed project',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          number: { type: Type.INTEGER, description: "The project's number in the list" },
+          summary: { type: Type.STRING, description: 'One sentence on where the project stands' },
+          actionItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+          priorityScore: { type: Type.INTEGER, description: 'How urgently the project needs attention, 0 to 100' },
+        },
+        required: ['number', 'summary', 'actionItems', 'priorityScore'],
+      },
+    },
+  },
+  required: ['summary', 'actionItems', 'projects'],
+};
+
+const TRANSCRIBE_PROMPTS: Record<TranscriptionKind, string> = {
+  message: 'Transcribe this voice message verbatim.',
+  answer: 'Transcribe this short spoken answer verbatim.',
+};
+
+export const createGeminiProvider = (apiKey: string, model: string): AssistantProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const toRequest = ({ contents, systemInstruction, tools }: ChatRequest): GenerateContentParameters => ({
+    model,
+    contents,
+    config: {
+      systemInstruction,
+      ...(tools.length > 0 ? { tools: [{ functionDeclarations: tools }] } : {}),
+    },
+  });
+
+  return {
+    name: 'gemini',
+
+    async transcribe(audioBase64, mimeType, kind) {
+      const result = await ai.models.generateContent({
+        model,
+        contents: [{
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType, data: audioBase64 } },
+            { text: TRANSCRIBE_PROMPTS[kind] },
+          ],
+        }],
+        config: { responseMimeType: 'application/json', responseSchema: TRANSCRIPT_SCHEMA },
+      });
+
+      try {
+        const parsed = JSON.parse(result.text || '{}');
+        const transcript = typeof parsed.transcript === 'string' ? parsed.transcript.trim() : '';
+        return parsed.intelligible && transcript ? transcript : '';
+      } catch {
+        return '';
+      }
+    },
+
+    async chat(request) {
+      const result = await ai.models.generateContent(toRequest(request));
+      return {
+        text: result.text || '',
+        functionCalls: result.functionCalls || [],
+        modelTurn: result.candidates?.[0]?.content,
+      };
+    },
+
+    async *chatStream(request) {
+      for await (const chunk of await ai.models.generateContentStream(toRequest(request))) {
+        yield { text: chunk.text, functionCalls: chunk.functionCalls };
+      }
+    },
+
+    async reviewPortfolio(systemInstruction) {
+      const result = await ai.models.generateContent({
+        model,
+        contents: [{
+          role: 'user',
+          parts: [{ text: 'Review the portfolio. Rank the action items and score every listed project by how urgently it needs attention, weighing rot, deadlines and status.' }],
+        }],
+        config: {
+          systemInstruction,
+          responseMimeType: 'application/json',
+          responseSchema: INSIGHTS_SCHEMA,
+        },
+      });
+      return JSON.parse(result.text || '{}');
+    },
+  };
+};
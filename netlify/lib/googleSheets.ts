@@ -0,0 +1,100 @@
+import { createSign } from 'node:crypto';
+import { Project } from '../../types';
+import { generateProjectId } from '../../services/dataService';
+import {
+  SheetConfig,
+  SheetMappingError,
+  validateHeaderRow,
+  parseProjectRow,
+  readCell,
+  fieldIndex,
+  lastMappedColumn,
+  quoteSheetName,
+} from '../../services/sheetConfig';
+
+/**
+ * Read-only access to the project index from the server, signed in as a
+ * service account the sheet is shared with. The browser keeps using the
+ * signed-in user's token; nothing here writes to the sheet.
+ */
+
+export interface ServiceAccount {
+  client_email: string;
+  private_key: string;
+}
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const SHEETS_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+const READONLY_SCOPE = 'https://www.googleapis.com/auth/spreadsheets.readonly';
+const TOKEN_LIFETIME_S = 3600;
+
+export const parseServiceAccount = (json: string): ServiceAccount => {
+  const account = JSON.parse(json);
+  if (!account.client_email || !account.private_key) {
+    throw new Error('Service account JSON needs client_email and private_key');
+  }
+  return account;
+};
+
+const base64Url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+/**
+ * Exchange a signed JWT for an access token (the OAuth service account flow).
+ */
+const fetchAccessToken = async (account: ServiceAccount): Promise<string> => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64Url(JSON.stringify({
+    iss: account.client_email,
+    scope: READONLY_SCOPE,
+    aud: TOKEN_URL,
+    iat: issuedAt,
+    exp: issuedAt + TOKEN_LIFETIME_S,
+  }));
+  const signature = createSign('RSA-SHA256').update(`${header}.${claims}`).sign(account.private_key);
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${header}.${claims}.${base64Url(signature)}`,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Service account sign-in failed (${response.status}): ${await response.text()}`);
+  }
+  return (await response.json()).access_token;
+};
+
+/**
+ * Every project row, parsed with the same mapping as the dashboard. Rows the
+ * dashboard has not yet given an ID get a temporary one for this run.
+ */
+export const readProjects = async (config: SheetConfig, account: ServiceAccount): Promise<Project[]> => {
+  const token = await fetchAccessToken(account);
+  const range = `${quoteSheetName(config.sheetName)}!A1:${lastMappedColumn(config)}`;
+  const url = `${SHEETS_URL}/${encodeURIComponent(config.spreadsheetId)}/values/${encodeURIComponent(range)}`
+    + '?majorDimension=ROWS&valueRenderOption=FORMATTED_VALUE';
+
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+  if (!response.ok) {
+    throw new Error(`Failed to read the project index (${response.status}): ${await response.text()}`);
+  }
+  const rows: string[][] = (await response.json()).values || [];
+
+  const issues = validateHeaderRow(rows[0] || [], config);
+  if (issues.length > 0) {
+    throw new SheetMappingError(issues);
+  }
+
+  const idIndex = fieldIndex(config, 'id');
+  return rows.slice(1)
+    .filter(row => row.some(cell => cell && cell.trim()))
+    .map(row => {
+      if (readCell(row, config, 'id')?.trim()) return parseProjectRow(row, config);
+      const withId = [...row];
+      withId[idIndex] = generateProjectId();
+      return parseProjectRow(withId, config);
+    });
+};
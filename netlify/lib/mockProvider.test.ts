@@ -0,0 +1,111 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Content } from '@google/genai';
+import { buildSystemInstruction } from './systemInstruction';
+import type { AssistantProvider, ChatRequest } from './providers';
+import { createMockProvider } from './mockProvider';
+
+let provider: AssistantProvider;
+
+beforeAll(() => {
+  process.env.MOCK_DELAY_MS = '0';
+  provider = createMockProvider();
+});
+
+const portfolio = {
+  total: 3,
+  projects: [
+    { name: 'Billing', status: 'Active ✅', daysSinceTouch: 7, rotLevel: 'Neglected', owner: 'Ana', tags: '#client', dueDate: '2026-10-01', deadlineRisk: 'Overdue' },
+    { name: 'Onboarding', status: 'Extended ⏳', daysSinceTouch: 14, rotLevel: 'Abandoned', owner: '', tags: '', dueDate: '', deadlineRisk: '' },
+    { name: 'Launch', status: 'NEW ✨', daysSinceTouch: 1, rotLevel: 'Fresh', owner: 'Ben', tags: '#q4', dueDate: '', deadlineRisk: '' },
+  ],
+};
+
+const ask = (text: string): ChatRequest => ({
+  contents: [{ role: 'user', parts: [{ text }] }],
+  systemInstruction: buildSystemInstruction(portfolio),
+  tools: [],
+});
+
+const toolResults = (...responses: [string, Record<string, unknown>][]): ChatRequest => {
+  const turn: Content = { role: 'user', parts: responses.map(([name, response]) => ({ functionResponse: { name, response } })) };
+  return { ...ask('ignored'), contents: [turn] };
+};
+
+describe('mock provider tool calls', () => {
+  it('proposes a status change', async () => {
+    const reply = await provider.chat(ask('Mark Billing as completed.'));
+    expect(reply.text).toBe('');
+    expect(reply.functionCalls).toEqual([
+      { id: 'mock-updateProjectStatus-1', name: 'updateProjectStatus', args: { project: 'Billing', status: 'completed' } },
+    ]);
+  });
+
+  it('proposes a new project, with an owner when one is named', async () => {
+    const [withOwner] = (await provider.chat(ask('Create a new project called Payroll owned by Ana'))).functionCalls;
+    expect(withOwner).toMatchObject({ name: 'createProject', args: { name: 'Payroll', owner: 'Ana' } });
+    const [withoutOwner] = (await provider.chat(ask('create project named Intranet'))).functionCalls;
+    expect(withoutOwner.args).toEqual({ name: 'Intranet' });
+  });
+
+  it('searches the project history', async () => {
+    const [search] = (await provider.chat(ask('Search for client work?'))).functionCalls;
+    expect(search).toMatchObject({ name: 'searchProjectHistory', args: { query: 'client work' } });
+  });
+
+  it('describes tool results sent back by the client', async () => {
+    const found = await provider.chat(toolResults(['searchProjectHistory', { result: [{ name: 'Billing' }, { name: 'Payroll' }] }]));
+    expect(found.text).toBe('I found 2 matching projects: Billing, Payroll.');
+
+    const mixed = await provider.chat(toolResults(
+      ['updateProjectStatus', { applied: true }],
+      ['createProject', { applied: false, reason: 'The user declined.' }],
+    ));
+    expect(mixed.text).toBe('Done. The change is saved. Okay, nothing was changed. The user declined.');
+
+    const failed = await provider.chat(toolResults(['searchProjectHistory', { error: 'Sheets is unavailable' }]));
+    expect(failed.text).toBe("That didn't work: Sheets is unavailable");
+  });
+
+  it('fails on request', async () => {
+    await expect(provider.chat(ask('Show me an error'))).rejects.toThrow('Scripted failure from the mock provider');
+  });
+});
+
+describe('mock provider answers', () => {
+  it('lists projects at the rot level asked about', async () => {
+    expect((await provider.chat(ask('Which projects are abandoned?'))).text)
+      .toBe('One listed project is abandoned: Onboarding. This is a scripted reply.');
+  });
+
+  it('summarizes the portfolio otherwise', async () => {
+    expect((await provider.chat(ask('How are we doing?'))).text)
+      .toMatch(/^I can see 3 listed projects\. 1 are abandoned and 1 are neglected\./);
+  });
+
+  it('streams the same answer word by word', async () => {
+    const words: string[] = [];
+    for await (const chunk of provider.chatStream(ask('Which projects are neglected?'))) words.push(chunk.text || '');
+    expect(words.length).toBeGreaterThan(1);
+    expect(words.join('')).toBe('One listed project is neglected: Billing. This is a scripted reply.');
+  });
+
+  it('scores the review from rot level and deadline risk', async () => {
+    const review = await provider.reviewPortfolio(buildSystemInstruction(portfolio));
+    expect(review.projects.map((p: any) => [p.number, p.priorityScore])).toEqual([[1, 75], [2, 70], [3, 10]]);
+    expect(review.actionItems[0]).toBe('Check in with Ana on Billing');
+    expect(review.actionItems[1]).toBe('Check in with the lead on Onboarding');
+  });
+});
+
+describe('mock provider transcription', () => {
+  const speech = 'A'.repeat(4000);
+
+  it('hears nothing in a recording too short for speech', async () => {
+    expect(await provider.transcribe('AAAA', 'audio/webm', 'message')).toBe('');
+  });
+
+  it('returns the scripted transcript or answer', async () => {
+    expect(await provider.transcribe(speech, 'audio/webm', 'message')).toBe('Which projects are abandoned?');
+    expect(await provider.transcribe(speech, 'audio/webm', 'answer')).toBe('yes');
+  });
+});
@@ -0,0 +1,183 @@
+import { Content, FunctionCall, FunctionResponse } from '@google/genai';
+import type { AssistantProvider, ChatReply, ChatRequest } from './providers';
+
+/**
+ * Deterministic stand-in for a model, for developing the assistant without an
+ * API key or network. Set ASSISTANT_PROVIDER=mock. Replies are scripted from
+ * the last turn:
+ *
+ * - "mark <project> as <status>" / "set <project> to <status>" → updateProjectStatus
+ * - "create a project called <name> [owned by <owner>]" → createProject
+ * - "search <query>" / "find <query>" → searchProjectHistory
+ * - anything mentioning "fail" or "error" → the request fails
+ * - anything else → an answer built from the portfolio in the system instruction
+ *
+ * Voice messages transcribe to MOCK_TRANSCRIPT and confirmation answers to
+ * MOCK_ANSWER; recordings too short to hold speech come back empty.
+ */
+
+const DEFAULT_TRANSCRIPT = 'Which projects are abandoned?';
+const DEFAULT_ANSWER = 'yes';
+// Roughly half a second of compressed audio, as base64
+const MIN_AUDIO_LENGTH = 2000;
+const DEFAULT_DELAY_MS = 30;
+
+const ROT_SCORES: Record<string, number> = { Abandoned: 70, Neglected: 45, Fresh: 10 };
+const RISK_SCORES: Record<string, number> = { Overdue: 30, 'Due Soon': 15 };
+
+interface ListedProject {
+  number: number;
+  name: string;
+  status: string;
+  daysSinceTouch: number;
+  rotLevel: string;
+  owner: string;
+  deadlineRisk: string;
+}
+
+// Lines as written by buildSystemInstruction in systemInstruction.ts: "1. name | status | 12d | rot | owner | tags | due | risk"
+const parsePortfolio = (systemInstruction: string): ListedProject[] =>
+  systemInstruction.split('\n').flatMap(line => {
+    const match = line.match(/^(\d+)\. (.*)$/);
+    if (!match) return [];
+    const [name, status, days, rotLevel, owner, , , deadlineRisk] = match[2].split(' | ');
+    return [{
+      number: Number(match[1]),
+      name,
+      status,
+      daysSinceTouch: parseInt(days, 10) || 0,
+      rotLevel,
+      owner: owner === 'unassigned' ? '' : owner,
+      deadlineRisk: deadlineRisk === '-' ? '' : deadlineRisk || '',
+    }];
+  });
+
+const names = (projects: ListedProject[]) => projects.map(p => p.name).join(', ');
+
+const answerFromPortfolio = (question: string, systemInstruction: string): string => {
+  const projects = parsePortfolio(systemInstruction);
+  const level = ['Abandoned', 'Neglected', 'Fresh'].find(l => question.toLowerCase().includes(l.toLowerCase()));
+  if (level) {
+    const matching = projects.filter(p => p.rotLevel === level);
+    return matching.length > 0
+      ? `${matching.length === 1 ? 'One listed project is' : `${matching.length} listed projects are`} ${level.toLowerCase()}: ${names(matching)}. This is a scripted reply.`
+      : `No listed projects are ${level.toLowerCase()}. This is a scripted reply.`;
+  }
+
+  const count = (l: string) => projects.filter(p => p.rotLevel === l).length;
+  return `I can see ${projects.length} listed projects. ${count('Abandoned')} are abandoned and ${count('Neglected')} are neglected. `
+    + `This is a scripted reply from the mock provider, so ask about abandoned, neglected or fresh projects for specifics.`;
+};
+
+const describeToolResult = (name: string, response: FunctionResponse['response']): string => {
+  if (response?.error) return `That didn't work: ${response.error}`;
+  if (name === 'searchProjectHistory') {
+    const results: FunctionResponse['response'][] = Array.isArray(response?.result) ? response.result : [];
+    return results.length > 0
+      ? `I found ${results.length} matching projects: ${results.map(r => r?.name).join(', ')}.`
+      : 'No projects matched that search.';
+  }
+  return response?.applied
+    ? 'Done. The change is saved.'
+    : `Okay, nothing was changed. ${response?.reason || ''}`.trim();
+};
+
+const reply = (text: string, functionCalls: FunctionCall[] = []): ChatReply => {
+  const modelTurn: Content = {
+    role: 'model',
+    parts: [
+      ...(text ? [{ text }] : []),
+      ...functionCalls.map(functionCall => ({ functionCall })),
+    ],
+  };
+  return { text, functionCalls, modelTurn };
+};
+
+const call = (request: ChatRequest, name: string, args: Record<string, unknown>): FunctionCall => ({
+  id: `mock-${name}-${request.contents.length}`,
+  name,
+  args,
+});
+
+const scriptReply = (request: ChatRequest): ChatReply => {
+  const parts = request.contents[request.contents.length - 1]?.parts || [];
+
+  const responses = parts.filter(p => p.functionResponse);
+  if (responses.length > 0) {
+    return reply(responses.map(p => describeToolResult(p.functionResponse!.name || '', p.functionResponse!.response)).join(' '));
+  }
+
+  const text = parts.map(p => p.text || '').join(' ').trim();
+  if (/\b(fail|error)\b/i.test(text)) {
+    throw new Error('Scripted failure from the mock provider');
+  }
+
+  const status = text.match(/^(?:mark|set) (.+?) (?:as|to) (\w+)\W*$/i);
+  if (status) {
+    return reply('', [call(request, 'updateProjectStatus', { project: status[1], status: status[2] })]);
+  }
+
+  const create = text.match(/create (?:a )?(?:new )?project (?:called|named) (.+?)(?: owned by (.+?))?\W*$/i);
+  if (create) {
+    return reply('', [call(request, 'createProject', { name: create[1], ...(create[2] ? { owner: create[2] } : {}) })]);
+  }
+
+  const search = text.match(/\b(?:search|find)(?: for)? (.+?)\W*$/i);
+  if (search) {
+    return reply('', [call(request, 'searchProjectHistory', { query: search[1] })]);
+  }
+
+  return reply(answerFromPortfolio(text, request.systemInstruction));
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = (): AssistantProvider => {
+  const delay = Number(process.env.MOCK_DELAY_MS ?? DEFAULT_DELAY_MS);
+
+  return {
+    name: 'mock',
+
+    async transcribe(audioBase64, _mimeType, kind) {
+      await wait(delay);
+      if (audioBase64.length < MIN_AUDIO_LENGTH) return '';
+      return kind === 'answer'
+        ? process.env.MOCK_ANSWER || DEFAULT_ANSWER
+        : process.env.MOCK_TRANSCRIPT || DEFAULT_TRANSCRIPT;
+    },
+
+    async chat(request) {
+      await wait(delay);
+      return scriptReply(request);
+    },
+
+    // Word by word, so streaming and sentence-by-sentence speech can be watched
+    async *chatStream(request) {
+      const { text, functionCalls } = scriptReply(request);
+      for (const word of text.match(/\S+\s*/g) || []) {
+        await wait(delay);
+        yield { text: word };
+      }
+      if (functionCalls.length > 0) yield { functionCalls };
+    },
+
+    async reviewPortfolio(systemInstruction) {
+      await wait(delay);
+      const projects = parsePortfolio(systemInstruction);
+      const score = (p: ListedProject) =>
+        Math.min(100, (ROT_SCORES[p.rotLevel] ?? 10) + (RISK_SCORES[p.deadlineRisk] ?? 0));
+      const ranked = [...projects].sort((a, b) => score(b) - score(a));
+
+      return {
+        summary: `Scripted review of ${projects.length} listed projects. Scores follow rot level and deadline risk.`,
+        actionItems: ranked.slice(0, 3).map(p => `Check in with ${p.owner || 'the lead'} on ${p.name}`),
+        projects: projects.map(p => ({
+          number: p.number,
+          summary: `${p.rotLevel}, last touched ${p.daysSinceTouch} days ago.`,
+          actionItems: p.rotLevel === 'Fresh' ? [] : [`Touch ${p.name} or close it`],
+          priorityScore: score(p),
+        })),
+      };
+    },
+  };
+};
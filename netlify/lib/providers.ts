@@ -0,0 +1,105 @@
+import { Content, FunctionCall, FunctionDeclaration } from '@google/genai';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+/**
+ * What the assistant function needs from a model. Content, function calls
+ * and declarations use the Gemini shapes, which the client already speaks.
+ */
+
+// A voice message starts a turn; an answer replies to a confirmation prompt
+export type TranscriptionKind = 'message' | 'answer';
+
+export interface ChatRequest {
+  contents: Content[];
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+}
+
+export interface ChatReply {
+  text: string;
+  functionCalls: FunctionCall[];
+  modelTurn?: Content;   // As the model returned it, when the provider has one
+}
+
+export interface ChatChunk {
+  text?: string;
+  functionCalls?: FunctionCall[];
+}
+
+// Audio containers the models accept, keyed by the types browsers report
+const AUDIO_TYPES: Record<string, string> = {
+  'audio/webm': 'audio/webm',
+  'video/webm': 'audio/webm',
+  'audio/mp4': 'audio/mp4',
+  'audio/m4a': 'audio/m4a',
+  'audio/x-m4a': 'audio/m4a',
+  'audio/mpeg': 'audio/mpeg',
+  'audio/mp3': 'audio/mp3',
+  'audio/wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-wav': 'audio/wav',
+  'audio/ogg': 'audio/ogg',
+  'audio/opus': 'audio/opus',
+  'audio/flac': 'audio/flac',
+  'audio/x-flac': 'audio/flac',
+  'audio/aac': 'audio/aac',
+  'audio/x-aac': 'audio/aac',
+  'audio/aiff': 'audio/aiff',
+  'audio/x-aiff': 'audio/aiff',
+};
+
+// What to suggest when an upload is refused
+export const SUPPORTED_AUDIO_FORMATS = 'WebM, MP4/M4A, MP3, WAV, OGG, FLAC, AAC or AIFF';
+
+/**
+ * The model's name for an uploaded audio type, ignoring codec parameters;
+ * null when the model cannot take it.
+ */
+export const normalizeAudioType = (type: unknown): string | null => {
+  if (typeof type !== 'string') return null;
+  return AUDIO_TYPES[type.split(';')[0].trim().toLowerCase()] || null;
+};
+
+export interface AssistantProvider {
+  readonly name: string;
+  /** Empty when nothing usable was said; mimeType is one normalizeAudioType returned */
+  transcribe(audioBase64: string, mimeType: string, kind: TranscriptionKind): Promise<string>;
+  chat(request: ChatRequest): Promise<ChatReply>;
+  chatStream(request: ChatRequest): AsyncIterable<ChatChunk>;
+  /** JSON with summary, actionItems and per-project scores keyed by list number */
+  reviewPortfolio(systemInstruction: string): Promise<any>;
+}
+
+/**
+ * The deployment is missing something the chosen provider needs.
+ */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+/**
+ * Pick the provider from the environment:
+ * ASSISTANT_PROVIDER ('gemini' by default, or 'mock' for offline development)
+ * and GEMINI_MODEL / GEMINI_API_KEY for Gemini.
+ */
+export const createProvider = (): AssistantProvider => {
+  const name = process.env.ASSISTANT_PROVIDER || 'gemini';
+
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) throw new ProviderConfigError('Missing Gemini API key');
+      return createGeminiProvider(apiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+    }
+    default:
+      throw new ProviderConfigError(`Unknown assistant provider "${name}"`);
+  }
+};
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AddressInfo, Server, Socket, createServer } from 'node:net';
+import { MailMessage, SmtpError, SmtpOptions, sendMail } from './smtp';
+
+/**
+ * A local SMTP sink: answers each command, records what it was sent and
+ * keeps the DATA sections. `reject` can refuse a command with its own reply.
+ */
+interface SinkOptions {
+  extensions?: string[];
+  reject?: (command: string) => string | undefined;
+}
+
+interface Sink {
+  options: SmtpOptions;
+  commands: string[];
+  messages: string[];
+  tlsHandshake: boolean;
+}
+
+let server: Server | null = null;
+const sockets = new Set<Socket>();
+
+const startSink = ({ extensions = [], reject = () => undefined }: SinkOptions = {}): Promise<Sink> => {
+  const sink: Sink = { options: { host: '127.0.0.1', port: 0, secure: false }, commands: [], messages: [], tlsHandshake: false };
+
+  server = createServer(socket => {
+    sockets.add(socket);
+    let buffer = '';
+    let inData = false;
+    let upgrading = false;
+
+    socket.on('data', chunk => {
+      // After STARTTLS the client opens with a TLS handshake record
+      if (upgrading) {
+        sink.tlsHandshake = chunk[0] === 0x16;
+        socket.destroy();
+        return;
+      }
+      buffer += chunk.toString('utf8');
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        sink.messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 Queued\r\n');
+      }
+
+      let end: number;
+      while (!inData && (end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        sink.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        const refusal = reject(line);
+        if (refusal) {
+          socket.write(`${refusal}\r\n`);
+        } else if (verb === 'EHLO') {
+          const lines = ['sink', ...extensions];
+          socket.write(lines.map((l, i) => `250${i < lines.length - 1 ? '-' : ' '}${l}\r\n`).join(''));
+        } else if (verb === 'STARTTLS') {
+          upgrading = true;
+          socket.write('220 Ready to start TLS\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write(verb === 'AUTH' ? '235 Authenticated\r\n' : '250 OK\r\n');
+        }
+      }
+    });
+    socket.on('close', () => sockets.delete(socket));
+    socket.write('220 sink ESMTP\r\n');
+  });
+
+  return new Promise(resolve => server!.listen(0, '127.0.0.1', () => {
+    sink.options.port = (server!.address() as AddressInfo).port;
+    resolve(sink);
+  }));
+};
+
+afterEach(async () => {
+  sockets.forEach(s => s.destroy());
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = null;
+});
+
+const message: MailMessage = {
+  from: 'Project Watch <digest@example.com>',
+  to: ['ana@example.com', 'Ben <ben@example.com>'],
+  subject: 'Portfolio digest',
+  text: '# Portfolio digest\n.hidden line\nDone.',
+};
+
+describe('sendMail', () => {
+  it('hands the message to the server with one recipient command each', async () => {
+    const sink = await startSink({ extensions: ['PIPELINING', 'SIZE 10240000', '8BITMIME'] });
+    await sendMail(sink.options, message);
+
+    expect(sink.commands).toEqual([
+      'EHLO project-watch',
+      'MAIL FROM:<digest@example.com>',
+      'RCPT TO:<ana@example.com>',
+      'RCPT TO:<ben@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0]).toContain('Subject: Portfolio digest\r\n');
+    expect(sink.messages[0]).toContain('To: ana@example.com, Ben <ben@example.com>\r\n');
+  });
+
+  it('doubles leading dots so a line cannot end the message early', async () => {
+    const sink = await startSink();
+    await sendMail(sink.options, message);
+    expect(sink.messages[0].endsWith('\r\n\r\n# Portfolio digest\r\n..hidden line\r\nDone.')).toBe(true);
+  });
+
+  it('encodes a subject with non-ASCII characters', async () => {
+    const sink = await startSink();
+    await sendMail(sink.options, { ...message, subject: 'Digest ✔️' });
+    expect(sink.messages[0]).toContain(`Subject: =?UTF-8?B?${Buffer.from('Digest ✔️').toString('base64')}?=\r\n`);
+  });
+
+  it('reports the command the server refused, with its code', async () => {
+    const sink = await startSink({ reject: line => (line.includes('ben@') ? '550 No such user' : undefined) });
+    const sent = sendMail(sink.options, message);
+    await expect(sent).rejects.toBeInstanceOf(SmtpError);
+    await expect(sent).rejects.toMatchObject({ code: 550, message: 'RCPT TO Ben <ben@example.com> rejected: 550 No such user' });
+    expect(sink.commands).not.toContain('DATA');
+  });
+
+  it('refuses to send credentials over a plain connection', async () => {
+    const sink = await startSink();
+    await expect(sendMail({ ...sink.options, user: 'digest', password: 'secret' }, message))
+      .rejects.toThrow('Refusing to send SMTP credentials over an unencrypted connection');
+    expect(sink.commands.some(c => c.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('switches to TLS before anything else when STARTTLS is offered', async () => {
+    const sink = await startSink({ extensions: ['STARTTLS'] });
+    await expect(sendMail(sink.options, message)).rejects.toThrow();
+    expect(sink.commands).toEqual(['EHLO project-watch', 'STARTTLS']);
+    expect(sink.tlsHandshake).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+import { Socket, connect as connectPlain, isIP } from 'node:net';
+import { TLSSocket, connect as connectTls } from 'node:tls';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Just enough SMTP to hand one plain-text message to a relay: EHLO, STARTTLS
+ * when offered, AUTH PLAIN, then the envelope and DATA. Any local sink that
+ * speaks SMTP (MailHog, smtp4dev, `python -m aiosmtpd -n`) works for testing.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;      // TLS from the first byte (usually port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+}
+
+export interface MailMessage {
+  from: string;         // "Name <address>" or a bare address
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 15000;
+const CLIENT_NAME = 'project-watch';
+
+/**
+ * Collect the server's replies, joining multiline ones ("250-..." up to "250 ...").
+ */
+const openReader = (socket: Socket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void, reject: (err: Error) => void }[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] === '-') continue;
+
+      const reply = { code: parseInt(line.slice(0, 3), 10), lines };
+      lines = [];
+      const next = waiting.shift();
+      if (next) next.resolve(reply);
+      else replies.push(reply);
+    }
+  };
+  const onError = (err: Error) => {
+    failure = err;
+    waiting.splice(0).forEach(w => w.reject(err));
+  };
+  const onClose = () => onError(failure || new SmtpError('Connection closed by the server'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    next: (): Promise<SmtpReply> => {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+};
+
+const withTimeout = <T extends Socket>(socket: T): T => {
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError('SMTP server timed out')));
+  return socket;
+};
+
+// SNI carries host names only, never addresses
+const serverName = (host: string) => (isIP(host) ? undefined : host);
+
+const openSocket = (options: SmtpOptions): Promise<Socket> => new Promise((resolve, reject) => {
+  const socket = options.secure
+    ? connectTls({ host: options.host, port: options.port, servername: serverName(options.host) }, () => resolve(socket))
+    : connectPlain({ host: options.host, port: options.port }, () => resolve(socket));
+  socket.once('error', reject);
+  withTimeout(socket);
+});
+
+const upgradeSocket = (socket: Socket, host: string): Promise<TLSSocket> => new Promise((resolve, reject) => {
+  const secured = connectTls({ socket, servername: serverName(host) }, () => resolve(secured));
+  secured.once('error', reject);
+  withTimeout(secured);
+});
+
+// The envelope wants the bare address
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+// RFC 2047 encoded word for subjects with non-ASCII characters
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+/**
+ * Headers and body with CRLF line endings, lines starting with a dot doubled
+ * so they cannot end the DATA section early.
+ */
+const formatMessage = (message: MailMessage): string => {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${CLIENT_NAME}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text.split(/\r?\n/).map(line => (line.startsWith('.') ? `.${line}` : line));
+  return [...headers, '', ...body].join('\r\n');
+};
+
+export const sendMail = async (options: SmtpOptions, message: MailMessage): Promise<void> => {
+  let socket: Socket = await openSocket(options);
+  let reader = openReader(socket);
+  let secured = options.secure;
+
+  const command = async (line: string | null, expected: number[], label = line?.split(' ')[0]): Promise<SmtpReply> => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await reader.next();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`${label || 'Greeting'} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const ehlo = await command(`EHLO ${CLIENT_NAME}`, [250]);
+
+    if (!secured && ehlo.lines.some(l => /^STARTTLS\b/i.test(l))) {
+      await command('STARTTLS', [220]);
+      reader.detach();
+      socket = await upgradeSocket(socket, options.host);
+      reader = openReader(socket);
+      secured = true;
+      await command(`EHLO ${CLIENT_NAME}`, [250]);
+    }
+
+    if (options.user) {
+      if (!secured) throw new SmtpError('Refusing to send SMTP credentials over an unencrypted connection');
+      const token = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64');
+      await command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+    }
+
+    await command(`MAIL FROM:<${addressOf(message.from)}>`, [250], 'MAIL FROM');
+    for (const to of message.to) {
+      await command(`RCPT TO:<${addressOf(to)}>`, [250, 251], `RCPT TO ${to}`);
+    }
+    await command('DATA', [354]);
+    await command(`${formatMessage(message)}\r\n.`, [250], 'Message');
+    await command('QUIT', [221]);
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+};
@@ -0,0 +1,50 @@
+/**
+ * The system instruction for assistant turns and portfolio reviews. The mock
+ * provider reads the project list back out of it, so keep the line format in
+ * step with parsePortfolio there.
+ */
+
+// The client caps the list too; this guards the prompt against oversized requests
+const MAX_PORTFOLIO_ENTRIES = 200;
+
+/**
+ * Ground the assistant in the portfolio snapshot the client sends with each
+ * turn, one project per line to keep the prompt small.
+ */
+export const buildSystemInstruction = (portfolio: any): string => {
+  const today = new Date().toISOString().slice(0, 10);
+  const lines = [
+    'You are the analyst for a project portfolio dashboard. Answer questions about the projects below concisely; answers may be read aloud.',
+    `Today is ${today}.`,
+    'Rot levels come from days since a project was last touched: Fresh, then Neglected, then Abandoned. Deadline risk is On Track, Due Soon or Overdue.',
+    'Owners are the project leads. Match owner names and tags case-insensitively, and base every answer on this data rather than guesses.',
+    'To change or create projects, call the write tools directly: the app asks the user to confirm, so do not ask first. Report whether each change was applied or declined.',
+  ];
+
+  if (!portfolio || !Array.isArray(portfolio.projects)) {
+    lines.push('No portfolio data was provided. Use searchProjectHistory to look projects up.');
+    return lines.join('\n');
+  }
+
+  const entries = portfolio.projects.slice(0, MAX_PORTFOLIO_ENTRIES);
+  const omitted = (Number(portfolio.omitted) || 0) + portfolio.projects.length - entries.length;
+  const counts = (label: string, values: unknown) => values && typeof values === 'object'
+    ? `${label}: ${Object.entries(values).map(([k, v]) => `${k} ${v}`).join(', ')}`
+    : '';
+
+  lines.push(
+    '',
+    `Portfolio: ${Number(portfolio.total) || entries.length} projects.`,
+    counts('By status', portfolio.byStatus),
+    counts('Open projects by rot level', portfolio.byRotLevel),
+    '',
+    'Projects (number. name | status | days since touched | rot level | owner | tags | due date | deadline risk):',
+    ...entries.map((p: any, i: number) => `${i + 1}. ` + [
+      p.name, p.status, `${p.daysSinceTouch}d`, p.rotLevel, p.owner || 'unassigned', p.tags || '-', p.dueDate || '-', p.deadlineRisk || '-',
+    ].join(' | ')),
+  );
+  if (omitted > 0) {
+    lines.push(`${omitted} more projects (the freshest and closed ones) are counted above but not listed; use searchProjectHistory to look them up.`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectStatus } from '../types';
+import { analyzeProjects } from './dataService';
+import { DEFAULT_ROT_POLICY } from './rotPolicy';
+import { describeAssistantAction, parseConfirmation, resolveAssistantAction } from './assistantActions';
+
+const projects = analyzeProjects([
+  { id: 'b1', name: 'Billing', lastTouched: '2026-10-18T09:00:00.000Z', status: ProjectStatus.ACTIVE, links: '', tags: '#client', owner: 'Ana' },
+  { id: 'b2', name: 'Billing v2', lastTouched: '2026-10-18T09:00:00.000Z', status: ProjectStatus.NEW, links: '', tags: '', owner: 'Ana' },
+  { id: 'o1', name: 'Onboarding', lastTouched: '2026-10-01T09:00:00.000Z', status: ProjectStatus.EXTENDED, links: '', tags: '', owner: 'Ben' },
+], DEFAULT_ROT_POLICY);
+
+const statusChange = (project: string, status: string) =>
+  resolveAssistantAction('updateProjectStatus', { project, status }, projects);
+
+describe('status changes', () => {
+  it('maps the plain words the model uses onto the sheet values', () => {
+    expect(statusChange('onboarding', 'Completed'))
+      .toEqual({ kind: 'status', projectId: 'o1', projectName: 'Onboarding', status: ProjectStatus.COMPLETED });
+    expect(statusChange('Onboarding', 'new')).toMatchObject({ status: ProjectStatus.NEW });
+  });
+
+  it('rejects words that are not a status', () => {
+    expect(() => statusChange('onboarding', 'paused')).toThrow('"paused" is not a project status');
+    expect(() => statusChange('onboarding', '')).toThrow('is not a project status');
+  });
+
+  it('prefers an exact name over partial matches and refuses ambiguous ones', () => {
+    expect(statusChange('billing', 'archived')).toMatchObject({ projectId: 'b1', status: ProjectStatus.ARCHIVED });
+    expect(() => statusChange('bill', 'active')).toThrow('matches several projects: Billing, Billing v2');
+    expect(() => statusChange('payroll', 'active')).toThrow('No project matches "payroll"');
+  });
+
+  it('reads back as one line', () => {
+    expect(describeAssistantAction(statusChange('onboarding', 'active'))).toBe(`Set "Onboarding" to ${ProjectStatus.ACTIVE}`);
+  });
+});
+
+describe('detail changes', () => {
+  it('records only the fields that change', () => {
+    const action = resolveAssistantAction('updateProjectDetails', { project: 'onboarding', owner: 'Ben', dueDate: ' 2026-11-01 ' }, projects);
+    expect(action).toMatchObject({ kind: 'details', changed: ['dueDate'] });
+    expect(describeAssistantAction(action)).toBe('Update "Onboarding": dueDate to "2026-11-01"');
+  });
+
+  it('refuses a call that changes nothing', () => {
+    expect(() => resolveAssistantAction('updateProjectDetails', { project: 'billing', owner: 'Ana' }, projects))
+      .toThrow('No changes were given for "Billing"');
+  });
+});
+
+describe('parseConfirmation', () => {
+  it.each([
+    ['Yes, go ahead.', true],
+    ['okay', true],
+    ['Sure thing', true],
+    ['No thanks', false],
+    ["Don't do that", false],
+    ['cancel', false],
+    ['maybe later', null],
+    ['yes, no, cancel', null],
+    ['', null],
+  ])('reads "%s" as %s', (transcript, answer) => {
+    expect(parseConfirmation(transcript)).toBe(answer);
+  });
+});
@@ -0,0 +1,100 @@
+import { ProjectAnalysis, ProjectDetails, ProjectStatus } from '../types';
+
+/**
+ * Changes the assistant can propose. Nothing is written until the user
+ * confirms; App then applies them like edits made from a card.
+ */
+export type AssistantAction =
+  | { kind: 'status'; projectId: string; projectName: string; status: ProjectStatus }
+  | { kind: 'details'; projectId: string; projectName: string; updates: ProjectDetails; changed: (keyof ProjectDetails)[] }
+  | { kind: 'create'; details: ProjectDetails };
+
+export const WRITE_TOOLS = ['updateProjectStatus', 'updateProjectDetails', 'createProject'];
+
+const DETAIL_FIELDS: (keyof ProjectDetails)[] = ['name', 'owner', 'tags', 'links', 'dueDate'];
+
+// The model names statuses in plain words ("completed"); the sheet values carry emoji
+const parseStatus = (value: unknown): ProjectStatus => {
+  const word = String(value || '').trim().toLowerCase();
+  const status = Object.values(ProjectStatus).find(s => word && s.toLowerCase().startsWith(word));
+  if (!status) throw new Error(`"${value}" is not a project status`);
+  return status;
+};
+
+const findProject = (name: unknown, projects: ProjectAnalysis[]) => {
+  const query = String(name || '').trim().toLowerCase();
+  if (!query) throw new Error('No project name was given');
+
+  const exact = projects.filter(a => a.project.name.toLowerCase() === query);
+  const matches = exact.length > 0 ? exact : projects.filter(a => a.project.name.toLowerCase().includes(query));
+  if (matches.length === 0) throw new Error(`No project matches "${name}"`);
+  if (matches.length > 1) {
+    throw new Error(`"${name}" matches several projects: ${matches.map(a => a.project.name).join(', ')}`);
+  }
+  return matches[0].project;
+};
+
+const pickDetails = (args: any): Partial<ProjectDetails> => {
+  const picked: Partial<ProjectDetails> = {};
+  DETAIL_FIELDS.forEach(field => {
+    if (typeof args[field] === 'string') picked[field] = args[field].trim();
+  });
+  return picked;
+};
+
+/**
+ * Turn a write tool call into a concrete change, resolving the project by
+ * name. Throws when the call does not identify exactly one project.
+ */
+export const resolveAssistantAction = (name: string, args: any, projects: ProjectAnalysis[]): AssistantAction => {
+  switch (name) {
+    case 'updateProjectStatus': {
+      const project = findProject(args.project, projects);
+      return { kind: 'status', projectId: project.id, projectName: project.name, status: parseStatus(args.status) };
+    }
+    case 'updateProjectDetails': {
+      const project = findProject(args.project, projects);
+      const current: ProjectDetails = {
+        name: project.name, links: project.links, tags: project.tags, owner: project.owner, dueDate: project.dueDate || '',
+      };
+      const updates = { ...current, ...pickDetails(args) };
+      const changed = DETAIL_FIELDS.filter(field => updates[field] !== current[field]);
+      if (changed.length === 0) throw new Error(`No changes were given for "${project.name}"`);
+      return { kind: 'details', projectId: project.id, projectName: project.name, updates, changed };
+    }
+    case 'createProject': {
+      const details = { name: '', links: '', tags: '', owner: '', dueDate: '', ...pickDetails(args) };
+      if (!details.name) throw new Error('A new project needs a name');
+      return { kind: 'create', details };
+    }
+    default:
+      throw new Error(`Unknown tool ${name}`);
+  }
+};
+
+/**
+ * One line for the confirmation card, also read aloud in voice mode.
+ */
+export const describeAssistantAction = (action: AssistantAction): string => {
+  switch (action.kind) {
+    case 'status':
+      return `Set "${action.projectName}" to ${action.status}`;
+    case 'details': {
+      const changes = action.changed.map(field => `${field} to "${action.updates[field]}"`);
+      return `Update "${action.projectName}": ${changes.join(', ')}`;
+    }
+    case 'create':
+      return `Create "${action.details.name}"${action.details.owner ? ` owned by ${action.details.owner}` : ''}`;
+  }
+};
+
+/**
+ * Read a spoken answer to a confirmation. Null when it is neither yes nor no.
+ */
+export const parseConfirmation = (transcript: string): boolean | null => {
+  const words = transcript.toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/);
+  const yes = words.some(w => ['yes', 'yeah', 'yep', 'sure', 'confirm', 'ok', 'okay', 'correct'].includes(w));
+  const no = words.some(w => ['no', 'nope', 'cancel', 'stop', 'dont', 'don'].includes(w));
+  if (yes === no) return null;
+  return yes;
+};
@@ -0,0 +1,45 @@
+import { Project, ProjectStatus } from '../types';
+import { normalizeTag, parseTags } from './rotPolicy';
+
+/**
+ * Changes that can be applied to many selected projects at once.
+ */
+export type BulkAction =
+  | { kind: 'status'; status: ProjectStatus }
+  | { kind: 'archive' }
+  | { kind: 'touch' }
+  | { kind: 'addTag'; tag: string }
+  | { kind: 'removeTag'; tag: string }
+  | { kind: 'owner'; owner: string };
+
+const addTag = (tags: string, tag: string): string => {
+  const key = normalizeTag(tag);
+  if (!key || parseTags(tags).includes(key)) return tags;
+  return [tags.trim(), `#${key}`].filter(Boolean).join(' ');
+};
+
+const removeTag = (tags: string, tag: string): string => {
+  const key = normalizeTag(tag);
+  return tags.split(/\s+/).filter(t => normalizeTag(t.replace(/,+$/, '')) !== key).join(' ');
+};
+
+/**
+ * The project as it should be stored after the action. Status changes touch
+ * the project, as they do from the card.
+ */
+export const applyBulkAction = (project: Project, action: BulkAction, now: string): Project => {
+  switch (action.kind) {
+    case 'status':
+      return { ...project, status: action.status, lastTouched: now };
+    case 'archive':
+      return { ...project, status: ProjectStatus.ARCHIVED, lastTouched: now };
+    case 'touch':
+      return { ...project, lastTouched: now };
+    case 'addTag':
+      return { ...project, tags: addTag(project.tags, action.tag) };
+    case 'removeTag':
+      return { ...project, tags: removeTag(project.tags, action.tag) };
+    case 'owner':
+      return { ...project, owner: action.owner.trim() };
+  }
+};
@@ -0,0 +1,90 @@
+import { ChatMessage } from '../types';
+import type { ChatTurn } from './geminiService';
+import { openDatabase, requestToPromise, transactionDone, THREADS_STORE } from './indexedDb';
+
+/**
+ * Assistant conversations kept in the browser, so they survive a reload and
+ * can be searched, resumed and exported later.
+ */
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;     // ISO Date string
+  updatedAt: string;
+  messages: ChatMessage[];
+  history: ChatTurn[];   // What the model saw, so a resumed thread continues where it left off
+}
+
+export interface ThreadSearchResult {
+  thread: ChatThread;
+  snippet: string;       // The first matching message, or the title
+}
+
+const TITLE_LENGTH = 60;
+const SNIPPET_RADIUS = 60;
+
+// Named after the first question asked
+export const threadTitle = (messages: ChatMessage[]): string => {
+  const first = messages.find(m => m.role === 'user')?.text.trim() || 'New conversation';
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+};
+
+export const saveThread = async (thread: ChatThread): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(THREADS_STORE, 'readwrite');
+  tx.objectStore(THREADS_STORE).put(thread);
+  await transactionDone(tx);
+};
+
+// Most recently updated first
+export const listThreads = async (): Promise<ChatThread[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(THREADS_STORE, 'readonly');
+  const threads = await requestToPromise<ChatThread[]>(tx.objectStore(THREADS_STORE).getAll());
+  return threads.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const deleteThread = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(THREADS_STORE, 'readwrite');
+  tx.objectStore(THREADS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+const snippetAround = (text: string, index: number): string => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Threads whose title and messages contain every word of the query,
+ * ignoring case.
+ */
+export const searchThreads = async (query: string): Promise<ThreadSearchResult[]> => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const threads = await listThreads();
+  if (terms.length === 0) return threads.map(thread => ({ thread, snippet: thread.title }));
+
+  return threads.flatMap(thread => {
+    const haystack = [thread.title, ...thread.messages.map(m => m.text)].join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return [];
+
+    const match = thread.messages.find(m => m.text.toLowerCase().includes(terms[0]));
+    const snippet = match ? snippetAround(match.text, match.text.toLowerCase().indexOf(terms[0])) : thread.title;
+    return [{ thread, snippet }];
+  });
+};
+
+/**
+ * The conversation as Markdown, e.g. to paste into standup notes.
+ */
+export const threadToMarkdown = (thread: ChatThread): string => {
+  const lines = [`# ${thread.title}`, '', `_Started ${new Date(thread.createdAt).toLocaleString()}_`, ''];
+  thread.messages.forEach(m => {
+    const time = new Date(m.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    lines.push(`**${m.role === 'user' ? 'You' : 'Analyst'}** (${time}): ${m.text}`, '');
+  });
+  return lines.join('\n');
+};
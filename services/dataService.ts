@@ -1,145 +1,132 @@
+import { DeadlineRisk, Project, ProjectAnalysis, ProjectStatus, RotLevel } from '../types';
+import type { BulkWriteResult, ProjectSearchResult } from './projectRepository';
+import { RotPolicy, countElapsedDays, resolveThresholds } from './rotPolicy';
 
-import { Project, ProjectStatus, ProjectAnalysis, RotLevel } from '../types';
+/**
+ * Stable identifier for new projects, independent of where they are stored
+ */
+export const generateProjectId = (): string => crypto.randomUUID();
 
-const SPREADSHEET_ID = '1r2Gr_t_aGKSayoNCoYRHWnEgTdZZ2LcAHoi3MpgZiCg';
-const SHEET_NAME = 'Project Index';
+// Fields a user can change and a conflict can therefore disagree on
+export const PROJECT_FIELDS = ['name', 'links', 'lastTouched', 'status', 'owner', 'dueDate', 'tags'] as const;
 
-// Helper to safely parse dates from loose string formats
-const safeParseDate = (dateStr: string | undefined): string => {
-  if (!dateStr) return new Date().toISOString();
-  
-  const parsed = new Date(dateStr);
-  if (isNaN(parsed.getTime())) {
-    return new Date().toISOString();
-  }
-  
-  return parsed.toISOString();
+export type ProjectField = typeof PROJECT_FIELDS[number];
+
+/**
+ * Fields whose values differ between two versions of a project
+ */
+export const diffProjects = (a: Project, b: Project): ProjectField[] =>
+  PROJECT_FIELDS.filter(field => (a[field] || '') !== (b[field] || ''));
+
+const copyField = <K extends ProjectField>(target: Project, source: Project, field: K) => {
+  target[field] = source[field];
 };
 
-export const fetchProjects = async (): Promise<Project[]> => {
-  try {
-    const range = `'${SHEET_NAME}'!A2:G`; 
-
-    const response = await window.gapi.client.sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range: range, 
-      majorDimension: 'ROWS',
-      valueRenderOption: 'FORMATTED_VALUE',
-    });
-
-    const rows = response.result.values;
-    if (!rows || rows.length === 0) return [];
-
-    return rows.map((row: string[], index: number) => {
-      const id = (index + 2).toString();
-      let statusRaw = row[3];
-      if (statusRaw === 'Archive 🗄️') statusRaw = ProjectStatus.ARCHIVED;
-
-      return {
-        id: id,
-        name: row[0] || 'Untitled Project',
-        links: row[1] || 'No Link',
-        lastTouched: safeParseDate(row[2]),
-        status: (statusRaw as ProjectStatus) || ProjectStatus.NEW,
-        owner: row[4] || '',
-        tags: row[6] || '',
-      };
-    });
-  } catch (error: any) {
-    console.error("Error fetching projects:", error);
-    throw new Error("Failed to fetch data from Google Sheets");
-  }
+/**
+ * The stored version with the given fields taken from another version
+ */
+export const mergeProjects = (theirs: Project, mine: Project, fromMine: ProjectField[]): Project => {
+  const merged: Project = { ...theirs };
+  fromMine.forEach(field => copyField(merged, mine, field));
+  return merged;
 };
 
 /**
- * Perform a fuzzy search across the entire spreadsheet for the AI tool
+ * True when the stored project no longer matches the version the caller started from
  */
-export const searchProjectsInSheet = async (query: string): Promise<any[]> => {
-  try {
-    const allProjects = await fetchProjects();
-    const q = query.toLowerCase().trim();
-    
-    // Simple fuzzy match across multiple fields
-    return allProjects.filter(p => 
-      p.name.toLowerCase().includes(q) ||
-      p.owner?.toLowerCase().includes(q) ||
-      p.status.toLowerCase().includes(q) ||
-      p.tags.toLowerCase().includes(q)
-    ).map(p => ({
-      name: p.name,
-      status: p.status,
-      lastTouched: p.lastTouched,
-      owner: p.owner,
-      tags: p.tags
-    }));
-  } catch (error) {
-    console.error("Tool search error:", error);
-    return [];
+export const hasChangedSince = (base: Project, current: Project): boolean => {
+  if (base.version !== undefined && current.version !== undefined) {
+    return base.version !== current.version;
   }
+  return diffProjects(base, current).length > 0;
 };
 
-export const updateProjectStatus = async (id: string, newStatus: ProjectStatus): Promise<void> => {
+/**
+ * Bulk save for backends without a batch API: one write per project, collecting failures
+ */
+export const saveEachProject = async (
+  projects: Project[],
+  save: (project: Project) => Promise<Project>
+): Promise<BulkWriteResult> => {
+  const result: BulkWriteResult = { saved: [], failed: [] };
+  for (const project of projects) {
     try {
-        const range = `'${SHEET_NAME}'!C${id}:D${id}`;
-        const now = new Date().toISOString();
-        await window.gapi.client.sheets.spreadsheets.values.update({
-            spreadsheetId: SPREADSHEET_ID,
-            range: range,
-            valueInputOption: 'USER_ENTERED',
-            resource: { values: [[now, newStatus]] }
-        });
-    } catch (error: any) {
-        throw new Error("Failed to update status in Google Sheets");
+      result.saved.push(await save(project));
+    } catch (err: any) {
+      result.failed.push({ projectId: project.id, message: err.message || 'Save failed' });
     }
+  }
+  return result;
 };
 
-export const updateProjectDetails = async (id: string, updates: { name: string, links: string, tags: string, owner: string }): Promise<void> => {
-  try {
-    const data = [
-      { range: `'${SHEET_NAME}'!A${id}:B${id}`, values: [[updates.name, updates.links]] },
-      { range: `'${SHEET_NAME}'!E${id}`, values: [[updates.owner]] },
-      { range: `'${SHEET_NAME}'!G${id}`, values: [[updates.tags]] }
-    ];
-    await window.gapi.client.sheets.spreadsheets.values.batchUpdate({
-      spreadsheetId: SPREADSHEET_ID,
-      resource: { valueInputOption: 'USER_ENTERED', data: data }
-    });
-  } catch (error: any) {
-    throw new Error("Failed to update project details");
-  }
+/**
+ * Simple fuzzy match across multiple fields, shared by every repository's search
+ */
+export const filterProjects = (projects: Project[], query: string): ProjectSearchResult[] => {
+  const q = query.toLowerCase().trim();
+
+  return projects.filter(p =>
+    p.name.toLowerCase().includes(q) ||
+    p.owner?.toLowerCase().includes(q) ||
+    p.status.toLowerCase().includes(q) ||
+    p.tags.toLowerCase().includes(q)
+  ).map(p => ({
+    name: p.name,
+    status: p.status,
+    lastTouched: p.lastTouched,
+    owner: p.owner,
+    tags: p.tags
+  }));
+};
+
+/**
+ * Days since the project was touched and the rot level its thresholds give that.
+ * Pass `now` to see the project as it stood at another time.
+ */
+export const calculateRot = (project: Project, policy: RotPolicy, now: Date = new Date()): { days: number, level: RotLevel } => {
+  const days = countElapsedDays(new Date(project.lastTouched), now, policy);
+  const { neglectedAfter, abandonedAfter } = resolveThresholds(project, policy);
+  let level = RotLevel.FRESH;
+  if (days > abandonedAfter) level = RotLevel.ABANDONED;
+  else if (days > neglectedAfter) level = RotLevel.NEGLECTED;
+  return { days, level };
 };
 
-export const createProject = async (project: { name: string, links: string, tags: string, owner: string }): Promise<void> => {
-  try {
-    const range = `'${SHEET_NAME}'!A:G`;
-    const now = new Date().toISOString();
-    const rowData = [project.name, project.links, now, ProjectStatus.NEW, project.owner, "", project.tags];
-    await window.gapi.client.sheets.spreadsheets.values.append({
-      spreadsheetId: SPREADSHEET_ID,
-      range: range,
-      valueInputOption: 'USER_ENTERED',
-      insertDataOption: 'INSERT_ROWS',
-      resource: { values: [rowData] }
-    });
-  } catch (error: any) {
-    throw new Error("Failed to create project in Google Sheets");
+/**
+ * Calendar days until the due date and how close that is. Closed projects carry no risk.
+ */
+export const calculateDeadlineRisk = (project: Project, policy: RotPolicy, now: Date = new Date()): { days: number | null, risk: DeadlineRisk | null } => {
+  if (!project.dueDate || project.status === ProjectStatus.COMPLETED || project.status === ProjectStatus.ARCHIVED) {
+    return { days: null, risk: null };
   }
+
+  const [year, month, day] = project.dueDate.split('-').map(Number);
+  const due = new Date(year, month - 1, day);
+  if (isNaN(due.getTime())) return { days: null, risk: null };
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((due.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+
+  let risk = DeadlineRisk.ON_TRACK;
+  if (days < 0) risk = DeadlineRisk.OVERDUE;
+  else if (days <= policy.dueSoonWithin) risk = DeadlineRisk.DUE_SOON;
+  return { days, risk };
 };
 
-export const calculateRot = (lastTouched: string): { days: number, level: RotLevel } => {
-  const touchDate = new Date(lastTouched);
-  const now = new Date();
-  const diffTime = Math.abs(now.getTime() - touchDate.getTime());
-  const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-  let level = RotLevel.FRESH;
-  if (diffDays > 10) level = RotLevel.ABANDONED;
-  else if (diffDays > 5) level = RotLevel.NEGLECTED;
-  return { days: diffDays, level };
+/**
+ * Rot level with the deadline folded in: overdue counts as abandoned and due
+ * soon as neglected, whichever is worse wins.
+ */
+export const effectiveRotLevel = (analysis: ProjectAnalysis): RotLevel => {
+  if (analysis.rotLevel === RotLevel.ABANDONED || analysis.deadlineRisk === DeadlineRisk.OVERDUE) return RotLevel.ABANDONED;
+  if (analysis.rotLevel === RotLevel.NEGLECTED || analysis.deadlineRisk === DeadlineRisk.DUE_SOON) return RotLevel.NEGLECTED;
+  return RotLevel.FRESH;
 };
 
-export const analyzeProjects = (projects: Project[]): ProjectAnalysis[] => {
+export const analyzeProjects = (projects: Project[], policy: RotPolicy, now: Date = new Date()): ProjectAnalysis[] => {
   return projects.map(p => {
-    const { days, level } = calculateRot(p.lastTouched);
-    return { project: p, daysSinceTouch: days, rotLevel: level };
+    const { days, level } = calculateRot(p, policy, now);
+    const deadline = calculateDeadlineRisk(p, policy, now);
+    return { project: p, daysSinceTouch: days, rotLevel: level, deadlineRisk: deadline.risk, daysUntilDue: deadline.days };
   });
 };
@@ -1,131 +1,518 @@
-
 /**
  * Gemini Service - Server-side only
  * 
- * All Gemini API calls now route through Netlify serverless functions.
- * This file provides stubs for the frontend to maintain compatibility.
+ * All Gemini API calls route through the Netlify serverless function.
+ * The chat session keeps the conversation history, so voice and text turns
+ * continue the same conversation, and a snapshot of the portfolio the
+ * assistant answers from.
+ */
+
+import { AIInsight, DeadlineRisk, PortfolioInsights, ProjectAnalysis, ProjectStatus, RotLevel } from '../types';
+import { effectiveRotLevel } from './dataService';
+import { SpeechSettings, loadSpeechSettings } from './speechSettings';
+import { chunkForSpeech } from './speechText';
+
+// Text for ordinary turns; tool calls and their results while an answer is pending
+export interface ChatPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { id?: string; name: string; args: Record<string, unknown> };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+export type ToolHandler = (name: string, args: any) => Promise<any>;
+
+/** Callbacks for a streamed reply; without them the reply arrives in one piece */
+export interface StreamHandlers {
+  /** A voice message's transcript, before the reply starts */
+  onTranscript?: (transcript: string) => void;
+  /** The answer so far; starts over if the model has to call a tool first */
+  onText?: (text: string) => void;
+  /** Abandons the turn: the request is cancelled and nothing is recorded in the session */
+  signal?: AbortSignal;
+}
+
+interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface PortfolioEntry {
+  id: string;
+  name: string;
+  status: ProjectStatus;
+  daysSinceTouch: number;
+  rotLevel: RotLevel;
+  owner: string;
+  tags: string;
+  dueDate?: string;
+  deadlineRisk?: DeadlineRisk;
+}
+
+/**
+ * What the assistant knows about the portfolio without calling a tool. Counts
+ * cover every project; the list may leave some out (see `omitted`).
  */
+export interface PortfolioSnapshot {
+  total: number;
+  byStatus: Record<string, number>;
+  byRotLevel: Record<string, number>; // Open projects only
+  projects: PortfolioEntry[];
+  omitted: number;
+}
+
+export interface ChatSession {
+  history: ChatTurn[];
+  portfolio: PortfolioSnapshot;
+}
+
+const GEMINI_ENDPOINT = '/.netlify/functions/gemini';
+
+// Stop a model that keeps asking for tools instead of answering
+const MAX_TOOL_ROUNDS = 5;
+
+// Keeps the system instruction a few thousand tokens even for large portfolios
+const MAX_PORTFOLIO_ENTRIES = 150;
+
+const ROT_ORDER: Record<RotLevel, number> = {
+  [RotLevel.ABANDONED]: 0,
+  [RotLevel.NEGLECTED]: 1,
+  [RotLevel.FRESH]: 2,
+};
+
+const isClosed = (analysis: ProjectAnalysis) =>
+  analysis.project.status === ProjectStatus.COMPLETED || analysis.project.status === ProjectStatus.ARCHIVED;
+
+const countBy = (values: string[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  values.forEach(v => { counts[v] = (counts[v] || 0) + 1; });
+  return counts;
+};
 
 /**
- * Creates a stub chat session for frontend compatibility.
- * Actual Gemini calls happen server-side via Netlify functions.
+ * Summarise the analysed projects for the assistant. When there are too many
+ * to list, open projects in the worst shape are kept first; the rest are
+ * still counted and can be found with the search tool.
  */
-export const createProjectChatSession = (_projects?: any) => {
+export const buildPortfolioSnapshot = (projects: ProjectAnalysis[]): PortfolioSnapshot => {
+  const open = projects.filter(a => !isClosed(a));
+  const ranked = [...projects].sort((a, b) =>
+    Number(isClosed(a)) - Number(isClosed(b))
+    || ROT_ORDER[effectiveRotLevel(a)] - ROT_ORDER[effectiveRotLevel(b)]
+    || b.daysSinceTouch - a.daysSinceTouch
+  );
+  const listed = ranked.slice(0, MAX_PORTFOLIO_ENTRIES);
+
   return {
-    history: [],
+    total: projects.length,
+    byStatus: countBy(projects.map(a => a.project.status)),
+    byRotLevel: countBy(open.map(a => a.rotLevel)),
+    projects: listed.map(({ project, daysSinceTouch, rotLevel, deadlineRisk }) => ({
+      id: project.id,
+      name: project.name,
+      status: project.status,
+      daysSinceTouch,
+      rotLevel,
+      owner: project.owner,
+      tags: project.tags,
+      ...(project.dueDate ? { dueDate: project.dueDate } : {}),
+      ...(deadlineRisk ? { deadlineRisk } : {}),
+    })),
+    omitted: projects.length - listed.length,
   };
 };
 
 /**
- * Stub for text chat - returns a message indicating server-side processing.
+ * Creates a chat session holding the conversation history and portfolio
+ * snapshot sent with each turn. Pass a saved history to resume a thread.
  */
-export const sendChatMessage = async (
-  chat: any,
-  message: string,
-  onToolCall?: (name: string, args: any) => Promise<any>
-): Promise<string> => {
-  // Text chat not yet implemented via server function
-  return "Text chat is being processed. Please use voice for now.";
+export const createProjectChatSession = (projects: ProjectAnalysis[], history: ChatTurn[] = []): ChatSession => {
+  return {
+    history: [...history],
+    portfolio: buildPortfolioSnapshot(projects),
+  };
 };
 
 /**
- * Sends a voice message via Netlify serverless function.
+ * Refresh the snapshot after projects change, keeping the conversation.
  */
-export const sendVoiceMessage = async (
-  audioBlob: Blob,
-  chatSession: any,
-  onToolCall?: (name: string, args: any) => Promise<any>
-): Promise<{ transcript: string; response: string }> => {
-  // Convert audio to base64
-  const reader = new FileReader();
-  const audioBase64 = await new Promise<string>((resolve, reject) => {
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      resolve(result.split(',')[1]);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(audioBlob);
-  });
+export const updateChatPortfolio = (session: ChatSession, projects: ProjectAnalysis[]) => {
+  session.portfolio = buildPortfolioSnapshot(projects);
+};
+
+// Voice turns are remembered by their transcript, so later text turns can refer back to them
+const recordTurn = (session: ChatSession, userText: string, modelText: string) => {
+  session.history.push(
+    { role: 'user', parts: [{ text: userText }] },
+    { role: 'model', parts: [{ text: modelText }] },
+  );
+};
+
+/**
+ * The server could not make out any speech in a voice message.
+ */
+export class UnintelligibleAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnintelligibleAudioError';
+  }
+}
+
+/**
+ * The server cannot take audio in this format.
+ */
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
 
-  const messages = chatSession?.history?.map((m: any) => ({
-    role: m.role,
-    parts: [{ text: m.parts?.[0]?.text || '' }],
-  })) || [];
+/**
+ * Read the function's newline-delimited events and resolve to the final one,
+ * which has the same shape as a non-streamed response.
+ */
+const readStream = async (res: Response, handlers: StreamHandlers): Promise<any> => {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
 
-  // TODO: Remove this log after debugging
-  console.log('[sendVoiceMessage] Sending to /.netlify/functions/gemini');
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (value) buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() || '';
 
-  const res = await fetch('/.netlify/functions/gemini', {
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line);
+      if (event.type === 'transcript') {
+        handlers.onTranscript?.(event.transcript);
+      } else if (event.type === 'text') {
+        text += event.text;
+        handlers.onText?.(text);
+      } else if (event.type === 'done') {
+        return event;
+      } else if (event.type === 'error') {
+        console.error('[gemini] Stream error:', event.error);
+        throw new Error(event.response || 'Assistant request failed');
+      }
+    }
+    if (done) throw new Error('The assistant stopped before finishing its answer');
+  }
+};
+
+const postToFunction = async (body: Record<string, unknown>, handlers?: StreamHandlers): Promise<any> => {
+  const res = await fetch(GEMINI_ENDPOINT, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      audioBase64,
-      messages,
-    }),
+    body: JSON.stringify(handlers ? { ...body, stream: true } : body),
+    signal: handlers?.signal,
   });
 
-  // TODO: Remove this log after debugging
-  console.log('[sendVoiceMessage] Response status:', res.status, res.statusText);
+  if (res.ok && handlers && res.headers.get('Content-Type')?.includes('ndjson')) {
+    return readStream(res, handlers);
+  }
 
   let data: any;
   try {
     data = await res.json();
-    // TODO: Remove this log after debugging
-    console.log('[sendVoiceMessage] Parsed response:', data);
   } catch (parseError) {
-    console.error('[sendVoiceMessage] Failed to parse JSON:', parseError);
+    console.error('[gemini] Failed to parse JSON:', parseError);
     throw new Error('Invalid response from server');
   }
 
   if (!res.ok) {
     // Server returned an error, but we have structured JSON
-    console.error('[sendVoiceMessage] Server error:', data.error || data.response);
-    throw new Error(data.response || data.error || 'Voice request failed');
+    console.error('[gemini] Server error:', data.error || data.response);
+    if (data.error === 'unintelligible_audio') {
+      throw new UnintelligibleAudioError(data.response);
+    }
+    if (data.error === 'unsupported_audio') {
+      throw new UnsupportedAudioError(data.response);
+    }
+    throw new Error(data.response || data.error || 'Assistant request failed');
+  }
+
+  return data;
+};
+
+const runToolCall = async (call: ToolCall, onToolCall?: ToolHandler) => {
+  if (!onToolCall) return { error: `Tool ${call.name} is not available here` };
+  try {
+    return await onToolCall(call.name, call.args);
+  } catch (err: any) {
+    console.error(`[gemini] Tool ${call.name} failed:`, err);
+    return { error: err.message || 'Tool failed' };
+  }
+};
+
+/**
+ * Post one turn to the Netlify function and return its final reply. When the
+ * model asks for tools, run them here (with the user's Sheets session) and
+ * post the results back until it answers. With stream handlers, each round
+ * is streamed.
+ */
+const postTurn = async (
+  session: ChatSession,
+  turn: Record<string, unknown>,
+  onToolCall?: ToolHandler,
+  handlers?: StreamHandlers
+): Promise<{ transcript: string; response: string }> => {
+  let data = await postToFunction({ ...turn, messages: session.history, portfolio: session.portfolio }, handlers);
+  const transcript: string = data.transcript || '';
+  // Turns of this exchange the server has not seen the end of yet
+  let pending: ChatTurn[] = [];
+
+  for (let round = 0; data.toolCalls?.length; round++) {
+    if (round >= MAX_TOOL_ROUNDS) {
+      throw new Error('The assistant could not finish its answer. Please try rephrasing.');
+    }
+    pending = [...pending, ...(data.turns || [])];
+    const toolResults = await Promise.all((data.toolCalls as ToolCall[]).map(async call => ({
+      id: call.id,
+      name: call.name,
+      response: await runToolCall(call, onToolCall),
+    })));
+    // Only the first round carries a transcript
+    const roundHandlers = handlers && { onText: handlers.onText, signal: handlers.signal };
+    data = await postToFunction({ messages: [...session.history, ...pending], toolResults, portfolio: session.portfolio }, roundHandlers);
   }
 
-  // Return the response in expected shape
   return {
-    transcript: data.transcript || '🎤 Voice message',
+    transcript,
     response: data.response || '',
   };
 };
 
+const clampScore = (score: unknown) => Math.max(0, Math.min(100, Math.round(Number(score) || 0)));
+
 /**
- * Speaks text aloud using browser's native speech synthesis
+ * Ask for a structured review of the portfolio: a summary, ranked action
+ * items and a priority score per listed project.
  */
-export const speakText = (text: string): Promise<void> => {
-  return new Promise((resolve) => {
-    if (!window.speechSynthesis) {
-      console.warn("Speech synthesis not supported");
-      resolve();
-      return;
-    }
+export const generatePortfolioInsights = async (projects: ProjectAnalysis[]): Promise<PortfolioInsights> => {
+  const portfolio = buildPortfolioSnapshot(projects);
+  const { insights } = await postToFunction({ insights: true, portfolio });
 
-    // Cancel any ongoing speech
-    window.speechSynthesis.cancel();
+  // The model refers to projects by their number in the snapshot
+  const byProject: Record<string, AIInsight> = {};
+  (insights.projects || []).forEach((p: any) => {
+    const entry = portfolio.projects[Number(p.number) - 1];
+    if (!entry) return;
+    byProject[entry.id] = {
+      summary: p.summary || '',
+      actionItems: Array.isArray(p.actionItems) ? p.actionItems : [],
+      priorityScore: clampScore(p.priorityScore),
+    };
+  });
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1.0;
-    utterance.pitch = 1.0;
-    utterance.volume = 1.0;
-
-    // Try to get a good English voice
-    const voices = window.speechSynthesis.getVoices();
-    const preferredVoice = voices.find(v => 
-      v.lang.startsWith('en') && (v.name.includes('Google') || v.name.includes('Samantha'))
-    ) || voices.find(v => v.lang.startsWith('en'));
-    
-    if (preferredVoice) {
-      utterance.voice = preferredVoice;
-    }
+  return {
+    summary: insights.summary || '',
+    actionItems: Array.isArray(insights.actionItems) ? insights.actionItems : [],
+    projects: byProject,
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Sends a typed message via the Netlify function.
+ */
+export const sendChatMessage = async (
+  chat: ChatSession,
+  message: string,
+  onToolCall?: ToolHandler,
+  handlers?: StreamHandlers
+): Promise<string> => {
+  const { response } = await postTurn(chat, { text: message }, onToolCall, handlers);
+  recordTurn(chat, message, response);
+  return response;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  const reader = new FileReader();
+  return new Promise<string>((resolve, reject) => {
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// For files the browser gave no type, e.g. from some system recorders.
+// Only formats the function accepts; anything else goes up untyped and is refused.
+const AUDIO_EXTENSION_TYPES: Record<string, string> = {
+  webm: 'audio/webm',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff',
+};
+
+/**
+ * The container the audio was actually recorded in; the server checks it
+ * against what the model accepts.
+ */
+const audioMimeTypeOf = (blob: Blob): string => {
+  if (blob.type) return blob.type;
+  const extension = blob instanceof File ? blob.name.split('.').pop()?.toLowerCase() : undefined;
+  return (extension && AUDIO_EXTENSION_TYPES[extension]) || '';
+};
+
+const audioBody = async (audioBlob: Blob) => ({
+  audioBase64: await blobToBase64(audioBlob),
+  audioMimeType: audioMimeTypeOf(audioBlob),
+});
+
+/**
+ * Transcribe a short recording without sending it to the conversation, e.g.
+ * a spoken yes or no. Empty when nothing usable was said.
+ */
+export const transcribeVoice = async (audioBlob: Blob): Promise<string> => {
+  const data = await postToFunction({ ...(await audioBody(audioBlob)), transcribeOnly: true });
+  return data.transcript || '';
+};
+
+/**
+ * Sends a voice message via the Netlify function.
+ */
+export const sendVoiceMessage = async (
+  audioBlob: Blob,
+  chatSession: ChatSession,
+  onToolCall?: ToolHandler,
+  handlers?: StreamHandlers
+): Promise<{ transcript: string; response: string }> => {
+  const { transcript, response } = await postTurn(chatSession, await audioBody(audioBlob), onToolCall, handlers);
+  if (transcript) {
+    recordTurn(chatSession, transcript, response);
+  }
+
+  return {
+    transcript,
+    response,
+  };
+};
 
+const createUtterance = (text: string, settings: SpeechSettings): SpeechSynthesisUtterance => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+  utterance.volume = 1.0;
+
+  // The chosen voice, or else try to get a good English voice
+  const voices = window.speechSynthesis.getVoices();
+  const preferredVoice = voices.find(v => settings.voiceURI && v.voiceURI === settings.voiceURI)
+    || voices.find(v => v.lang.startsWith('en') && (v.name.includes('Google') || v.name.includes('Samantha')))
+    || voices.find(v => v.lang.startsWith('en'));
+  
+  if (preferredVoice) {
+    utterance.voice = preferredVoice;
+  }
+  return utterance;
+};
+
+// Resolves when the utterance ends, including when it is cancelled
+const speakUtterance = (text: string, settings: SpeechSettings): Promise<void> => {
+  return new Promise((resolve) => {
+    const utterance = createUtterance(text, settings);
     utterance.onend = () => resolve();
     utterance.onerror = () => resolve();
-
     window.speechSynthesis.speak(utterance);
   });
 };
 
+/**
+ * Queue a Markdown answer sentence by sentence; resolves once the last
+ * sentence ends, or null when there is nothing to say.
+ */
+const queueSpeech = (text: string, settings: SpeechSettings): Promise<void> | null => {
+  const utterances = chunkForSpeech(text).map(chunk => speakUtterance(chunk, settings));
+  return utterances.length > 0 ? utterances[utterances.length - 1] : null;
+};
+
+/**
+ * Speaks text aloud using browser's native speech synthesis. Pass settings
+ * to try them before they are saved.
+ */
+export const speakText = (text: string, settings: SpeechSettings = loadSpeechSettings()): Promise<void> => {
+  if (!window.speechSynthesis) {
+    console.warn("Speech synthesis not supported");
+    return Promise.resolve();
+  }
+
+  // Cancel any ongoing speech
+  window.speechSynthesis.cancel();
+  return queueSpeech(text, settings) || Promise.resolve();
+};
+
+export interface SpeechQueue {
+  /** Pass the answer so far; each sentence is spoken once it is complete */
+  update(text: string): void;
+  /** Speak the rest of the answer and resolve once everything has been said */
+  finish(text: string): Promise<void>;
+  /** Stop speaking and ignore anything passed afterwards */
+  cancel(): void;
+  readonly cancelled: boolean;
+}
+
+// A sentence is complete once punctuation is followed by whitespace
+const COMPLETE_SENTENCES = /^[\s\S]*[.!?:;](?=\s)/;
+
+/**
+ * Speak a streamed answer sentence by sentence, starting before the rest of
+ * it has arrived. The browser queues utterances, so sentences follow on.
+ */
+export const createSpeechQueue = (): SpeechQueue => {
+  const settings = loadSpeechSettings();
+  let spokenText = '';
+  let cancelled = false;
+  let lastUtterance: Promise<void> = Promise.resolve();
+
+  const speakFrom = (text: string, upTo: number) => {
+    // A tool round restarts the answer; carry on from the new text
+    if (!text.startsWith(spokenText)) spokenText = '';
+    const next = text.slice(spokenText.length, upTo);
+    spokenText = text.slice(0, upTo);
+    if (cancelled || !window.speechSynthesis) return;
+    lastUtterance = queueSpeech(next, settings) || lastUtterance;
+  };
+
+  return {
+    update(text) {
+      if (!text.startsWith(spokenText)) spokenText = '';
+      const match = text.slice(spokenText.length).match(COMPLETE_SENTENCES);
+      if (match) speakFrom(text, spokenText.length + match[0].length);
+    },
+    finish(text) {
+      speakFrom(text, text.length);
+      return cancelled ? Promise.resolve() : lastUtterance;
+    },
+    cancel() {
+      cancelled = true;
+      stopSpeaking();
+    },
+    get cancelled() {
+      return cancelled;
+    },
+  };
+};
+
 /**
  * Stops any ongoing speech
  */
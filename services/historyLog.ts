@@ -0,0 +1,47 @@
+import { HistoryEntry, Project, ProjectStatus } from '../types';
+import { diffProjects } from './dataService';
+
+/**
+ * Builds activity log entries from before/after versions of a project.
+ * Every repository records the same entries, only where they are kept differs.
+ */
+
+const ACTOR_STORAGE_KEY = 'project_watch_actor';
+
+export const getHistoryActor = (): string => localStorage.getItem(ACTOR_STORAGE_KEY) || 'Dashboard';
+
+export const setHistoryActor = (actor: string) => {
+  if (actor.trim()) localStorage.setItem(ACTOR_STORAGE_KEY, actor.trim());
+  else localStorage.removeItem(ACTOR_STORAGE_KEY);
+};
+
+/**
+ * One entry per changed field. A move into Archived is logged as 'archived'
+ * so the timeline can tell it apart from ordinary status changes.
+ */
+export const buildChangeEntries = (before: Project, after: Project): HistoryEntry[] => {
+  const timestamp = new Date().toISOString();
+  const actor = getHistoryActor();
+
+  return diffProjects(before, after).map(field => ({
+    projectId: after.id,
+    timestamp,
+    actor,
+    field: field === 'status' && after.status === ProjectStatus.ARCHIVED ? 'archived' : field,
+    oldValue: before[field] || '',
+    newValue: after[field] || '',
+  }));
+};
+
+export const buildCreationEntry = (project: Project): HistoryEntry => ({
+  projectId: project.id,
+  timestamp: new Date().toISOString(),
+  actor: getHistoryActor(),
+  field: 'created',
+  oldValue: '',
+  newValue: project.name,
+});
+
+// Newest first, as the timeline shows them
+export const sortHistory = (entries: HistoryEntry[]): HistoryEntry[] =>
+  [...entries].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
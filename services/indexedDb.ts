@@ -0,0 +1,72 @@
+/**
+ * Thin promise wrappers around IndexedDB.
+ *
+ * Every local store the dashboard keeps lives in one database so the schema
+ * and its upgrades are defined in a single place.
+ */
+
+const DB_NAME = 'project-watch';
+const DB_VERSION = 4;
+
+export const PROJECTS_STORE = 'projects';
+export const MUTATIONS_STORE = 'mutations';
+export const HISTORY_STORE = 'history';
+export const THREADS_STORE = 'threads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(MUTATIONS_STORE, { keyPath: 'seq', autoIncrement: true });
+  }
+  if (oldVersion < 3) {
+    const history = db.createObjectStore(HISTORY_STORE, { autoIncrement: true });
+    history.createIndex('projectId', 'projectId');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(THREADS_STORE, { keyPath: 'id' });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      upgradeDatabase(request.result, event.oldVersion);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+};
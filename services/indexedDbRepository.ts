@@ -0,0 +1,112 @@
+import { HistoryEntry, Project, ProjectDetails, ProjectStatus } from '../types';
+import { filterProjects, generateProjectId, hasChangedSince, saveEachProject } from './dataService';
+import { buildChangeEntries, buildCreationEntry, sortHistory } from './historyLog';
+import { openDatabase, requestToPromise, transactionDone, PROJECTS_STORE, HISTORY_STORE } from './indexedDb';
+import { ProjectConflictError, ProjectNotFoundError } from './repositoryErrors';
+import type { ProjectRepository, WriteOptions } from './projectRepository';
+
+// Records carry their creation time so the list keeps insertion order despite random IDs
+interface StoredProject extends Project {
+  createdAt?: string;
+}
+
+const readAll = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const records = await requestToPromise<StoredProject[]>(tx.objectStore(PROJECTS_STORE).getAll());
+  return records
+    .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))
+    .map(({ createdAt, ...project }) => project);
+};
+
+/**
+ * Read a project, apply a change and write it back, together with its
+ * history entries, inside a single transaction.
+ * Local data has a single writer per tab, so conflicts are only checked when
+ * the caller passes the version it started from.
+ */
+const modifyProject = async (
+  id: string,
+  change: (project: StoredProject) => StoredProject,
+  options: WriteOptions = {}
+): Promise<Project> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, HISTORY_STORE], 'readwrite');
+  const store = tx.objectStore(PROJECTS_STORE);
+  const existing = await requestToPromise<StoredProject | undefined>(store.get(id));
+  if (!existing) {
+    tx.abort();
+    throw new ProjectNotFoundError(id);
+  }
+  const { createdAt, ...current } = existing;
+  if (!options.force && options.base && hasChangedSince(options.base, current)) {
+    tx.abort();
+    throw new ProjectConflictError(change({ ...options.base }), current, options.base);
+  }
+  const updated = change(existing);
+  store.put(updated);
+  const { createdAt: _, ...after } = updated;
+  buildChangeEntries(current, after).forEach(entry => tx.objectStore(HISTORY_STORE).add(entry));
+  await transactionDone(tx);
+  return after;
+};
+
+const fetchProjects = async (): Promise<Project[]> => {
+  try {
+    return await readAll();
+  } catch (error: any) {
+    console.error("Error reading local projects:", error);
+    throw new Error("Failed to read projects from local storage");
+  }
+};
+
+const createProject = async (details: ProjectDetails, id: string = generateProjectId()): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, HISTORY_STORE], 'readwrite');
+  const now = new Date().toISOString();
+  const record: StoredProject = {
+    ...details,
+    id,
+    lastTouched: now,
+    status: ProjectStatus.NEW,
+    createdAt: now,
+  };
+  tx.objectStore(PROJECTS_STORE).add(record);
+  tx.objectStore(HISTORY_STORE).add(buildCreationEntry(record));
+  await transactionDone(tx);
+};
+
+const fetchHistory = async (projectId: string): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const index = tx.objectStore(HISTORY_STORE).index('projectId');
+  return sortHistory(await requestToPromise<HistoryEntry[]>(index.getAll(projectId)));
+};
+
+/**
+ * Stores projects in the browser's IndexedDB so the dashboard works
+ * without a Google account. Data stays on this device.
+ */
+export const createIndexedDbRepository = (): ProjectRepository => ({
+  backend: 'indexeddb',
+
+  fetchProjects,
+
+  searchProjects: async (query: string) => filterProjects(await readAll(), query),
+
+  updateProjectStatus: (id: string, newStatus: ProjectStatus, options?: WriteOptions) =>
+    modifyProject(id, p => ({ ...p, status: newStatus, lastTouched: new Date().toISOString() }), options),
+
+  updateProjectDetails: (id: string, updates: ProjectDetails, options?: WriteOptions) =>
+    modifyProject(id, p => ({ ...p, ...updates }), options),
+
+  saveProject: (project: Project, options?: WriteOptions) =>
+    modifyProject(project.id, p => ({ ...project, createdAt: p.createdAt }), options),
+
+  saveProjects: (projects: Project[]) =>
+    saveEachProject(projects, project => modifyProject(project.id, p => ({ ...project, createdAt: p.createdAt }))),
+
+  createProject,
+
+  fetchHistory,
+});
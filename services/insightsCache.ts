@@ -0,0 +1,51 @@
+import { PortfolioInsights, Project } from '../types';
+import { PROJECT_FIELDS } from './dataService';
+
+const INSIGHTS_STORAGE_KEY = 'project_watch_insights';
+
+interface CachedInsights {
+  fingerprint: string;
+  insights: PortfolioInsights;
+}
+
+/**
+ * Changes whenever any stored field of any project does, so cached insights
+ * are only shown for the data they were generated from.
+ */
+export const portfolioFingerprint = (projects: Project[]): string => {
+  const data = JSON.stringify(
+    [...projects]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(p => PROJECT_FIELDS.map(field => p[field] ?? ''))
+  );
+
+  // djb2; collisions only cost a stale cache hit
+  let hash = 5381;
+  for (let i = 0; i < data.length; i++) {
+    hash = ((hash << 5) + hash + data.charCodeAt(i)) | 0;
+  }
+  return `${projects.length}:${(hash >>> 0).toString(36)}`;
+};
+
+export const loadCachedInsights = (fingerprint: string): PortfolioInsights | null => {
+  const stored = localStorage.getItem(INSIGHTS_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const cached: CachedInsights = JSON.parse(stored);
+    return cached.fingerprint === fingerprint ? cached.insights : null;
+  } catch (e) {
+    console.error("Failed to parse cached insights", e);
+    localStorage.removeItem(INSIGHTS_STORAGE_KEY);
+    return null;
+  }
+};
+
+export const saveCachedInsights = (fingerprint: string, insights: PortfolioInsights) => {
+  const cached: CachedInsights = { fingerprint, insights };
+  localStorage.setItem(INSIGHTS_STORAGE_KEY, JSON.stringify(cached));
+};
+
+export const clearCachedInsights = () => {
+  localStorage.removeItem(INSIGHTS_STORAGE_KEY);
+};
@@ -0,0 +1,89 @@
+import { HistoryEntry, Project, ProjectDetails, ProjectStatus } from '../types';
+import { filterProjects, generateProjectId, hasChangedSince, saveEachProject } from './dataService';
+import { buildChangeEntries, buildCreationEntry, sortHistory } from './historyLog';
+import { ProjectConflictError, ProjectNotFoundError } from './repositoryErrors';
+import type { ProjectRepository, WriteOptions } from './projectRepository';
+
+export interface MemoryProjectRepository extends ProjectRepository {
+  /** Serialize the current contents, e.g. to seed another session or a test fixture */
+  toJSON(): string;
+}
+
+/**
+ * Parse a JSON export (an array of projects) into seed data for the memory backend.
+ */
+export const parseProjectsJson = (json: string): Project[] => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Project JSON must be an array of projects');
+  }
+  return parsed.map((p: any) => ({
+    id: p.id ? String(p.id) : generateProjectId(),
+    name: p.name || 'Untitled Project',
+    links: p.links || 'No Link',
+    lastTouched: p.lastTouched || new Date().toISOString(),
+    status: (p.status as ProjectStatus) || ProjectStatus.NEW,
+    owner: p.owner || '',
+    dueDate: p.dueDate || '',
+    tags: p.tags || '',
+  }));
+};
+
+/**
+ * Keeps projects in a plain array. Nothing touches the network or disk,
+ * which makes it the backend for demos and offline tests.
+ */
+export const createMemoryRepository = (seed: Project[] | string = []): MemoryProjectRepository => {
+  let projects: Project[] = typeof seed === 'string' ? parseProjectsJson(seed) : seed.map(p => ({ ...p }));
+  let history: HistoryEntry[] = [];
+
+  /**
+   * Replace one project with a changed copy, refusing if it moved on from the caller's base.
+   */
+  const modifyProject = (id: string, change: (project: Project) => Project, options: WriteOptions = {}): Project => {
+    const current = projects.find(p => p.id === id);
+    if (!current) throw new ProjectNotFoundError(id);
+    if (!options.force && options.base && hasChangedSince(options.base, current)) {
+      throw new ProjectConflictError(change({ ...options.base }), { ...current }, options.base);
+    }
+    const updated = change(current);
+    projects = projects.map(p => p.id === id ? updated : p);
+    history = [...history, ...buildChangeEntries(current, updated)];
+    return { ...updated };
+  };
+
+  return {
+    backend: 'memory',
+
+    fetchProjects: async () => projects.map(p => ({ ...p })),
+
+    searchProjects: async (query: string) => filterProjects(projects, query),
+
+    updateProjectStatus: async (id: string, newStatus: ProjectStatus, options?: WriteOptions) =>
+      modifyProject(id, p => ({ ...p, status: newStatus, lastTouched: new Date().toISOString() }), options),
+
+    updateProjectDetails: async (id: string, updates: ProjectDetails, options?: WriteOptions) =>
+      modifyProject(id, p => ({ ...p, ...updates }), options),
+
+    saveProject: async (project: Project, options?: WriteOptions) =>
+      modifyProject(project.id, () => ({ ...project }), options),
+
+    saveProjects: (list: Project[]) =>
+      saveEachProject(list, async project => modifyProject(project.id, () => ({ ...project }))),
+
+    createProject: async (details: ProjectDetails, id: string = generateProjectId()) => {
+      const created: Project = {
+        ...details,
+        id,
+        lastTouched: new Date().toISOString(),
+        status: ProjectStatus.NEW,
+      };
+      projects = [...projects, created];
+      history = [...history, buildCreationEntry(created)];
+    },
+
+    fetchHistory: async (projectId: string) => sortHistory(history.filter(e => e.projectId === projectId)),
+
+    toJSON: () => JSON.stringify(projects, null, 2),
+  };
+};
@@ -0,0 +1,139 @@
+import { Project } from '../types';
+import { openDatabase, requestToPromise, transactionDone, MUTATIONS_STORE } from './indexedDb';
+import { ProjectConflictError, ProjectNotFoundError } from './repositoryErrors';
+import type { ProjectRepository, StorageBackend } from './projectRepository';
+
+/**
+ * Durable queue of writes made while offline. Entries are replayed in the
+ * order they were made once the network is back.
+ */
+
+export type QueuedMutation =
+  // The project as the user left it, checked against the version they started from
+  | { kind: 'save'; project: Project; base: Project }
+  | { kind: 'create'; project: Project };
+
+export interface QueuedEntry {
+  seq?: number;
+  backend: StorageBackend;
+  queuedAt: string;
+  mutation: QueuedMutation;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  conflict?: ProjectConflictError;
+  conflictSeq?: number;  // Queue entry behind the conflict, kept until the user settles it
+  errors: string[];
+}
+
+const CACHE_STORAGE_KEY = 'project_watch_cached_projects';
+
+export const enqueueMutation = async (backend: StorageBackend, mutation: QueuedMutation): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MUTATIONS_STORE, 'readwrite');
+  const entry: QueuedEntry = { backend, queuedAt: new Date().toISOString(), mutation };
+  tx.objectStore(MUTATIONS_STORE).add(entry);
+  await transactionDone(tx);
+};
+
+export const listQueuedMutations = async (backend: StorageBackend): Promise<QueuedEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MUTATIONS_STORE, 'readonly');
+  const entries = await requestToPromise<QueuedEntry[]>(tx.objectStore(MUTATIONS_STORE).getAll());
+  return entries.filter(e => e.backend === backend);
+};
+
+export const removeQueuedMutation = async (seq: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MUTATIONS_STORE, 'readwrite');
+  tx.objectStore(MUTATIONS_STORE).delete(seq);
+  await transactionDone(tx);
+};
+
+/**
+ * A write is worth queueing only when the browser has lost its connection.
+ */
+export const isOffline = (): boolean => !navigator.onLine;
+
+/**
+ * Replay queued writes in order. Stops at the first conflict so the UI can
+ * offer a merge, and at the first failure so order is preserved. A
+ * conflicting entry stays queued, so a reload or a closed tab does not lose
+ * the offline edit; the UI removes it once the conflict is resolved.
+ */
+export const replayQueue = async (repository: ProjectRepository): Promise<ReplayResult> => {
+  const entries = await listQueuedMutations(repository.backend);
+  const result: ReplayResult = { replayed: 0, errors: [] };
+  // Only the first queued write per project is checked against the user's base;
+  // later ones build on it and use the version the repository just stored
+  const written = new Set<string>();
+
+  for (const entry of entries) {
+    const { mutation } = entry;
+    try {
+      if (mutation.kind === 'create') {
+        const { id, name, links, tags, owner, dueDate } = mutation.project;
+        await repository.createProject({ name, links, tags, owner: owner || '', dueDate: dueDate || '' }, id);
+      } else {
+        const base = written.has(mutation.project.id) ? undefined : mutation.base;
+        await repository.saveProject(mutation.project, { base });
+      }
+      written.add(mutation.project.id);
+      await removeQueuedMutation(entry.seq!);
+      result.replayed++;
+    } catch (err: any) {
+      if (err instanceof ProjectConflictError) {
+        result.conflict = err;
+        result.conflictSeq = entry.seq;
+        break;
+      }
+      if (err instanceof ProjectNotFoundError) {
+        await removeQueuedMutation(entry.seq!);
+        result.errors.push(err.message);
+        continue;
+      }
+      // Keep the entry (and everything after it) for the next attempt
+      if (!isOffline()) {
+        console.error("Queued change failed", entry, err);
+        result.errors.push(err.message || 'A queued change could not be saved.');
+      }
+      break;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Overlay queued writes on a project list so offline edits survive a reload.
+ */
+export const applyQueuedMutations = (projects: Project[], entries: QueuedEntry[]): Project[] => {
+  let result = [...projects];
+  for (const { mutation } of entries) {
+    const exists = result.some(p => p.id === mutation.project.id);
+    result = exists
+      ? result.map(p => p.id === mutation.project.id ? mutation.project : p)
+      : [...result, mutation.project];
+  }
+  return result;
+};
+
+// Last successful fetch, so the dashboard can still open without a connection
+export const cacheProjects = (backend: StorageBackend, projects: Project[]) => {
+  try {
+    localStorage.setItem(`${CACHE_STORAGE_KEY}_${backend}`, JSON.stringify(projects));
+  } catch (e) {
+    console.warn("Failed to cache projects", e);
+  }
+};
+
+export const loadCachedProjects = (backend: StorageBackend): Project[] | null => {
+  const stored = localStorage.getItem(`${CACHE_STORAGE_KEY}_${backend}`);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
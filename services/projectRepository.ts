@@ -0,0 +1,86 @@
+import { HistoryEntry, Project, ProjectDetails, ProjectStatus } from '../types';
+import { createSheetsRepository } from './sheetsRepository';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createMemoryRepository } from './memoryRepository';
+
+export type StorageBackend = 'sheets' | 'indexeddb' | 'memory';
+
+export interface ProjectSearchResult {
+  name: string;
+  status: ProjectStatus;
+  lastTouched: string;
+  owner?: string;
+  tags: string;
+}
+
+export interface WriteOptions {
+  /** Version the caller started from. Defaults to what the repository last fetched. */
+  base?: Project;
+  /** Write even if the stored project changed, e.g. after the user resolved a conflict */
+  force?: boolean;
+}
+
+/** Outcome of a bulk save: each project succeeds or fails on its own */
+export interface BulkWriteResult {
+  saved: Project[];   // As stored, with their new versions
+  failed: { projectId: string; message: string }[];
+}
+
+/**
+ * Storage contract for the dashboard. The UI only talks to this interface,
+ * so a team without Google Workspace can swap the Sheet for a local store.
+ */
+export interface ProjectRepository {
+  readonly backend: StorageBackend;
+  fetchProjects(): Promise<Project[]>;
+  searchProjects(query: string): Promise<ProjectSearchResult[]>;
+  /**
+   * All writes resolve to the project as stored, new version included, and
+   * reject with ProjectConflictError when the stored project changed under them
+   */
+  updateProjectStatus(id: string, newStatus: ProjectStatus, options?: WriteOptions): Promise<Project>;
+  updateProjectDetails(id: string, updates: ProjectDetails, options?: WriteOptions): Promise<Project>;
+  /** Overwrite every field, including lastTouched, with the given version */
+  saveProject(project: Project, options?: WriteOptions): Promise<Project>;
+  /** Save many projects in one round trip where the backend allows it; never rejects for a single project */
+  saveProjects(projects: Project[]): Promise<BulkWriteResult>;
+  /** Pass an ID to create a project the UI already shows, e.g. when replaying offline edits */
+  createProject(project: ProjectDetails, id?: string): Promise<void>;
+  /** Activity log for one project, newest first. Every write above appends to it. */
+  fetchHistory(projectId: string): Promise<HistoryEntry[]>;
+}
+
+const BACKEND_STORAGE_KEY = 'project_watch_backend';
+
+const isStorageBackend = (value: string | null): value is StorageBackend =>
+  value === 'sheets' || value === 'indexeddb' || value === 'memory';
+
+export const getStoredBackend = (): StorageBackend => {
+  const stored = localStorage.getItem(BACKEND_STORAGE_KEY);
+  return isStorageBackend(stored) ? stored : 'sheets';
+};
+
+export const createRepository = (backend: StorageBackend): ProjectRepository => {
+  switch (backend) {
+    case 'indexeddb':
+      return createIndexedDbRepository();
+    case 'memory':
+      return createMemoryRepository();
+    case 'sheets':
+    default:
+      return createSheetsRepository();
+  }
+};
+
+let activeRepository: ProjectRepository = createRepository(getStoredBackend());
+
+export const getProjectRepository = (): ProjectRepository => activeRepository;
+
+/**
+ * Switch the active backend and remember the choice for the next visit.
+ */
+export const setStorageBackend = (backend: StorageBackend): ProjectRepository => {
+  localStorage.setItem(BACKEND_STORAGE_KEY, backend);
+  activeRepository = createRepository(backend);
+  return activeRepository;
+};
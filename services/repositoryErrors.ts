@@ -0,0 +1,37 @@
+import { Project } from '../types';
+
+/**
+ * Errors raised by ProjectRepository implementations that the UI reacts to
+ * differently from a plain write failure.
+ */
+
+export class ProjectNotFoundError extends Error {
+  projectId: string;
+
+  constructor(projectId: string) {
+    super(`Project ${projectId} no longer exists. It may have been deleted from the sheet; reload to see the latest rows.`);
+    this.name = 'ProjectNotFoundError';
+    this.projectId = projectId;
+  }
+}
+
+/**
+ * The stored project changed since the caller last read it. Carries the
+ * version both sides started from as well, so the UI can tell the user's own
+ * changes from everyone else's and merge instead of overwriting.
+ */
+export class ProjectConflictError extends Error {
+  projectId: string;
+  mine: Project;    // What the rejected write would have stored
+  theirs: Project;  // What is stored now
+  base: Project;    // What the rejected write started from
+
+  constructor(mine: Project, theirs: Project, base: Project) {
+    super(`"${theirs.name}" was changed by someone else since it was loaded.`);
+    this.name = 'ProjectConflictError';
+    this.projectId = theirs.id;
+    this.mine = mine;
+    this.theirs = theirs;
+    this.base = base;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Project, ProjectStatus } from '../types';
+import { DEFAULT_ROT_POLICY, RotPolicy, countElapsedDays, parseTags, resolveThresholds } from './rotPolicy';
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+  id: 'p1',
+  name: 'Billing',
+  lastTouched: '2026-10-01T09:00:00.000Z',
+  status: ProjectStatus.NEW,
+  links: '',
+  tags: '',
+  ...overrides,
+});
+
+const policy = (overrides: Partial<RotPolicy> = {}): RotPolicy => ({ ...DEFAULT_ROT_POLICY, ...overrides });
+
+describe('countElapsedDays', () => {
+  it('counts whole calendar days by default', () => {
+    expect(countElapsedDays(new Date(2026, 9, 16, 17), new Date(2026, 9, 19, 9), policy())).toBe(2);
+  });
+
+  it('counts Friday to Monday as one business day', () => {
+    const businessDays = policy({ businessDays: true });
+    expect(countElapsedDays(new Date(2026, 9, 16, 17), new Date(2026, 9, 19, 9), businessDays)).toBe(1);
+  });
+
+  it('skips holidays and ignores the order of the dates', () => {
+    const businessDays = policy({ businessDays: true, holidays: ['2026-10-20'] });
+    const friday = new Date(2026, 9, 16);
+    const wednesday = new Date(2026, 9, 21);
+    expect(countElapsedDays(friday, wednesday, businessDays)).toBe(2);
+    expect(countElapsedDays(wednesday, friday, businessDays)).toBe(2);
+  });
+
+  it('counts nothing on the day of the touch', () => {
+    expect(countElapsedDays(new Date(2026, 9, 19, 8), new Date(2026, 9, 19, 18), policy({ businessDays: true }))).toBe(0);
+  });
+});
+
+describe('parseTags', () => {
+  it('normalizes hashtags and plain words alike', () => {
+    expect(parseTags('#Ops client, Q4')).toEqual(['ops', 'client', 'q4']);
+  });
+
+  it('returns nothing for an empty field', () => {
+    expect(parseTags('')).toEqual([]);
+  });
+});
+
+describe('resolveThresholds', () => {
+  const rules = policy({
+    tags: {
+      client: { neglectedAfter: 3, abandonedAfter: 12 },
+      urgent: { neglectedAfter: 2, abandonedAfter: 20 },
+    },
+    projects: { p1: { neglectedAfter: 30, abandonedAfter: 60 } },
+  });
+
+  it("prefers the project's own rule over its tags", () => {
+    expect(resolveThresholds(project({ tags: '#urgent' }), rules)).toEqual({ neglectedAfter: 30, abandonedAfter: 60 });
+  });
+
+  it('takes the strictest value of each threshold across tags', () => {
+    expect(resolveThresholds(project({ id: 'p2', tags: 'client #Urgent' }), rules)).toEqual({ neglectedAfter: 2, abandonedAfter: 12 });
+  });
+
+  it('falls back to the defaults', () => {
+    expect(resolveThresholds(project({ id: 'p2', tags: '#unknown' }), rules)).toEqual(DEFAULT_ROT_POLICY.defaults);
+  });
+});
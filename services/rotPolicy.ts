@@ -0,0 +1,104 @@
+import { Project } from '../types';
+
+/**
+ * How long a project may go untouched before it counts as neglected or abandoned.
+ * Thresholds can be set globally, per tag and per project; stored per browser.
+ */
+
+export interface RotThresholds {
+  neglectedAfter: number;  // Days untouched before a project is Neglected
+  abandonedAfter: number;  // Days untouched before a project is Abandoned
+}
+
+export interface RotPolicy {
+  defaults: RotThresholds;
+  businessDays: boolean;                     // Skip weekends and holidays when counting
+  holidays: string[];                        // YYYY-MM-DD, only used with businessDays
+  tags: Record<string, RotThresholds>;       // Keyed by tag without '#', lowercased
+  projects: Record<string, RotThresholds>;   // Keyed by project ID, wins over tags
+  dueSoonWithin: number;                     // Calendar days before a due date that count as due soon
+}
+
+export const DEFAULT_ROT_POLICY: RotPolicy = {
+  defaults: { neglectedAfter: 5, abandonedAfter: 10 },
+  businessDays: false,
+  holidays: [],
+  tags: {},
+  projects: {},
+  dueSoonWithin: 7,
+};
+
+const POLICY_STORAGE_KEY = 'project_watch_rot_policy';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const loadRotPolicy = (): RotPolicy => {
+  const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+  if (!stored) return DEFAULT_ROT_POLICY;
+
+  try {
+    return { ...DEFAULT_ROT_POLICY, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Failed to parse stored rot policy", e);
+    localStorage.removeItem(POLICY_STORAGE_KEY);
+    return DEFAULT_ROT_POLICY;
+  }
+};
+
+export const saveRotPolicy = (policy: RotPolicy) => {
+  localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#/, '').toLowerCase();
+
+// '#ops #infra' -> ['ops', 'infra']; plain words count too, so 'client, q4' -> ['client', 'q4']
+export const parseTags = (tags: string): string[] =>
+  (tags || '').split(/[\s,]+/).map(normalizeTag).filter(Boolean);
+
+/**
+ * The thresholds that apply to a project: its own override first, then the
+ * strictest of its tags' rules, then the global defaults.
+ */
+export const resolveThresholds = (project: Project, policy: RotPolicy): RotThresholds => {
+  const own = policy.projects[project.id];
+  if (own) return own;
+
+  const tagRules = parseTags(project.tags).map(tag => policy.tags[tag]).filter(Boolean);
+  if (tagRules.length === 0) return policy.defaults;
+
+  return {
+    neglectedAfter: Math.min(...tagRules.map(r => r.neglectedAfter)),
+    abandonedAfter: Math.min(...tagRules.map(r => r.abandonedAfter)),
+  };
+};
+
+const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Whole days between two instants. With business days on, only weekdays that
+ * are not holidays count, so Friday to Monday is one day.
+ */
+export const countElapsedDays = (from: Date, to: Date, policy: RotPolicy): number => {
+  if (!policy.businessDays) {
+    return Math.floor(Math.abs(to.getTime() - from.getTime()) / DAY_MS);
+  }
+
+  const [start, end] = from <= to ? [from, to] : [to, from];
+  const holidays = new Set(policy.holidays);
+  const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const last = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  let days = 0;
+
+  // Count each calendar day after the touch date, up to and including today
+  cursor.setDate(cursor.getDate() + 1);
+  while (cursor <= last) {
+    const weekday = cursor.getDay();
+    if (weekday !== 0 && weekday !== 6 && !holidays.has(toDateKey(cursor))) days++;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+};
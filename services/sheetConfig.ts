@@ -0,0 +1,351 @@
+import { Project, ProjectStatus } from '../types';
+
+/**
+ * Where the project index lives and how its columns map onto Project fields.
+ * Stored per browser so each team can point a fork at its own sheet.
+ */
+
+export type MappedField = 'id' | 'name' | 'links' | 'lastTouched' | 'status' | 'owner' | 'dueDate' | 'tags';
+
+export interface ColumnMapping {
+  column: string;   // Column letter, empty when the field is not kept in the sheet
+  header?: string;  // Expected header text in row 1, used to detect moved or renamed columns
+}
+
+export interface SheetConfig {
+  spreadsheetId: string;
+  sheetName: string;
+  historySheetName: string; // Tab the activity log is appended to; created on first write
+  columns: Record<MappedField, ColumnMapping>;
+}
+
+export interface MappingIssue {
+  field: MappedField;
+  message: string;
+}
+
+export class SheetMappingError extends Error {
+  issues: MappingIssue[];
+
+  constructor(issues: MappingIssue[]) {
+    super(`Sheet columns do not match the configured mapping: ${issues.map(i => i.message).join(' ')}`);
+    this.name = 'SheetMappingError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Rows that cannot be told apart by their project ID. Reads refuse such a
+ * sheet; assigning IDs is an explicit step the user takes once.
+ */
+export interface ProjectIdProblems {
+  claimed: boolean;     // Row 1 of the ID column carries the ID header
+  migratable: boolean;  // IDs may be written: the column is claimed or still entirely empty
+  header: string;       // What row 1 of the ID column holds
+  missing: number[];    // Sheet rows (1-based) without an ID
+  duplicates: number[]; // Sheet rows repeating an ID from a row above
+}
+
+export class ProjectIdError extends SheetMappingError {
+  problems: ProjectIdProblems;
+
+  constructor(problems: ProjectIdProblems, config: SheetConfig) {
+    super(describeIdProblems(problems, config));
+    this.name = 'ProjectIdError';
+    this.problems = problems;
+  }
+}
+
+export const MAPPED_FIELDS: MappedField[] = ['id', 'name', 'links', 'lastTouched', 'status', 'owner', 'dueDate', 'tags'];
+
+export const REQUIRED_FIELDS: MappedField[] = ['id', 'name', 'lastTouched', 'status'];
+
+// Header written above the ID column when the dashboard creates it
+export const ID_HEADER = 'Project ID';
+
+export const FIELD_LABELS: Record<MappedField, string> = {
+  id: 'Project ID',
+  name: 'Project Name',
+  links: 'Resource Links',
+  lastTouched: 'Last Touched',
+  status: 'Status',
+  owner: 'Project Lead',
+  dueDate: 'Due Date',
+  tags: 'Tags',
+};
+
+export const DEFAULT_SHEET_CONFIG: SheetConfig = {
+  spreadsheetId: '1r2Gr_t_aGKSayoNCoYRHWnEgTdZZ2LcAHoi3MpgZiCg',
+  sheetName: 'Project Index',
+  historySheetName: 'History',
+  columns: {
+    name: { column: 'A' },
+    links: { column: 'B' },
+    lastTouched: { column: 'C' },
+    status: { column: 'D' },
+    owner: { column: 'E' },
+    dueDate: { column: 'F' },
+    tags: { column: 'G' },
+    id: { column: 'H' },
+  },
+};
+
+const CONFIG_STORAGE_KEY = 'project_watch_sheet_config';
+
+export const loadSheetConfig = (): SheetConfig => {
+  const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+  if (!stored) return DEFAULT_SHEET_CONFIG;
+
+  try {
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_SHEET_CONFIG,
+      ...parsed,
+      columns: { ...DEFAULT_SHEET_CONFIG.columns, ...parsed.columns },
+    };
+  } catch (e) {
+    console.error("Failed to parse stored sheet config", e);
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    return DEFAULT_SHEET_CONFIG;
+  }
+};
+
+export const saveSheetConfig = (config: SheetConfig) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
+
+export const resetSheetConfig = () => {
+  localStorage.removeItem(CONFIG_STORAGE_KEY);
+};
+
+// 'A' -> 0, 'AA' -> 26. Returns -1 for anything that is not a column letter.
+export const columnToIndex = (column: string): number => {
+  const letters = column.trim().toUpperCase();
+  if (!/^[A-Z]+$/.test(letters)) return -1;
+  return letters.split('').reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+};
+
+export const indexToColumn = (index: number): string => {
+  let column = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    column = String.fromCharCode(65 + rem) + column;
+    n = Math.floor((n - 1) / 26);
+  }
+  return column;
+};
+
+// Tab names with spaces or quotes must be quoted in A1 ranges
+export const quoteSheetName = (sheetName: string) => `'${sheetName.replace(/'/g, "''")}'`;
+
+/**
+ * Index of the field's column, or -1 when the field is not mapped.
+ */
+export const fieldIndex = (config: SheetConfig, field: MappedField): number =>
+  columnToIndex(config.columns[field]?.column || '');
+
+/**
+ * Right-most mapped column, so reads and appends cover exactly the mapped range.
+ */
+export const lastMappedColumn = (config: SheetConfig): string => {
+  const maxIndex = MAPPED_FIELDS.reduce((max, field) => Math.max(max, fieldIndex(config, field)), 0);
+  return indexToColumn(maxIndex);
+};
+
+const normalizeHeader = (value: string | undefined) => (value || '').trim().toLowerCase();
+
+/**
+ * Checks the configured mapping against the sheet's header row, or only the
+ * mapping itself while the header row has not been read (null).
+ * Returns one issue per field that is unmapped, moved or renamed.
+ */
+export const validateHeaderRow = (header: string[] | null, config: SheetConfig): MappingIssue[] => {
+  const issues: MappingIssue[] = [];
+  const seen = new Map<number, MappedField>();
+
+  for (const field of MAPPED_FIELDS) {
+    const mapping = config.columns[field];
+    const label = FIELD_LABELS[field];
+    const index = fieldIndex(config, field);
+
+    if (index < 0) {
+      if (mapping?.column) {
+        issues.push({ field, message: `${label}: "${mapping.column}" is not a valid column letter.` });
+      } else if (REQUIRED_FIELDS.includes(field)) {
+        issues.push({ field, message: `${label} must be mapped to a column.` });
+      }
+      continue;
+    }
+
+    const clash = seen.get(index);
+    if (clash) {
+      issues.push({ field, message: `${label} and ${FIELD_LABELS[clash]} both use column ${mapping.column}.` });
+    }
+    seen.set(index, field);
+
+    if (!header || !mapping.header) continue;
+
+    const expected = normalizeHeader(mapping.header);
+    if (normalizeHeader(header[index]) === expected) continue;
+
+    const movedTo = header.findIndex(h => normalizeHeader(h) === expected);
+    if (movedTo >= 0) {
+      issues.push({ field, message: `${label}: column "${mapping.header}" moved from ${mapping.column} to ${indexToColumn(movedTo)}.` });
+    } else if (header[index]) {
+      issues.push({ field, message: `${label}: expected "${mapping.header}" in column ${mapping.column} but found "${header[index]}".` });
+    } else {
+      issues.push({ field, message: `${label}: column "${mapping.header}" is missing from the sheet.` });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Remember the header text above each mapped column that has none yet, so a
+ * later rename or move is reported instead of misread. Returns null when
+ * there is nothing new to remember.
+ */
+export const captureHeaders = (header: string[], config: SheetConfig): SheetConfig | null => {
+  const headerOf = (field: MappedField) => (header[fieldIndex(config, field)] || '').trim();
+  const missing = MAPPED_FIELDS.filter(field => !config.columns[field].header && headerOf(field));
+  if (missing.length === 0) return null;
+
+  const columns = { ...config.columns };
+  missing.forEach(field => {
+    columns[field] = { ...columns[field], header: headerOf(field) };
+  });
+  return { ...config, columns };
+};
+
+const isBlankRow = (row: string[]) => row.every(cell => !cell || !cell.trim());
+
+/**
+ * Check the ID column of every row. Returns null when each project row has
+ * an ID of its own under the ID header.
+ */
+export const findProjectIdProblems = (rows: string[][], config: SheetConfig): ProjectIdProblems | null => {
+  const header = (rows[0]?.[fieldIndex(config, 'id')] || '').trim();
+  const accepted = [ID_HEADER, config.columns.id.header].map(normalizeHeader).filter(Boolean);
+  const claimed = accepted.includes(normalizeHeader(header));
+
+  const missing: number[] = [];
+  const duplicates: number[] = [];
+  const seen = new Set<string>();
+  rows.forEach((row, index) => {
+    if (index === 0 || isBlankRow(row)) return;
+    const id = (readCell(row, config, 'id') || '').trim();
+    if (!id) missing.push(index + 1);
+    else if (seen.has(id)) duplicates.push(index + 1);
+    else seen.add(id);
+  });
+
+  if (claimed && missing.length === 0 && duplicates.length === 0) return null;
+  // An unclaimed column is only taken over while nothing is in it
+  const migratable = claimed || (!header && seen.size === 0);
+  return { claimed, migratable, header, missing, duplicates };
+};
+
+const listRows = (rows: number[]) =>
+  rows.length > 10 ? `${rows.slice(0, 10).join(', ')} and ${rows.length - 10} more` : rows.join(', ');
+
+const describeIdProblems = (problems: ProjectIdProblems, config: SheetConfig): MappingIssue[] => {
+  const column = config.columns.id.column;
+  if (!problems.migratable) {
+    return [{
+      field: 'id',
+      message: problems.header
+        ? `Column ${column} is headed "${problems.header}", not "${ID_HEADER}". Map Project ID to an empty column, or rename the header if it holds project IDs.`
+        : `Column ${column} has no header but is not empty. Map Project ID to an empty column, or head it "${ID_HEADER}" if it holds project IDs.`,
+    }];
+  }
+
+  const issues: MappingIssue[] = [];
+  if (!problems.claimed) {
+    issues.push({ field: 'id', message: `Column ${column} has not been set up for project IDs yet.` });
+  }
+  if (problems.missing.length > 0) {
+    issues.push({ field: 'id', message: `Rows without a project ID: ${listRows(problems.missing)}.` });
+  }
+  if (problems.duplicates.length > 0) {
+    issues.push({ field: 'id', message: `Rows repeating a project ID from a row above: ${listRows(problems.duplicates)}.` });
+  }
+  return issues;
+};
+
+// Helper to safely parse dates from loose string formats
+const safeParseDate = (dateStr: string | undefined): string => {
+  if (!dateStr) return new Date().toISOString();
+
+  const parsed = new Date(dateStr);
+  if (isNaN(parsed.getTime())) {
+    return new Date().toISOString();
+  }
+
+  return parsed.toISOString();
+};
+
+/**
+ * Normalise a due date cell to YYYY-MM-DD; blank or unreadable dates mean no deadline.
+ */
+export const parseDueDate = (dateStr: string | undefined): string => {
+  const value = (dateStr || '').trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const parsed = new Date(value);
+  if (!value || isNaN(parsed.getTime())) return '';
+
+  const month = String(parsed.getMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getDate()).padStart(2, '0');
+  return `${parsed.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Read one field from a raw row, or undefined when the field is unmapped.
+ */
+export const readCell = (row: string[], config: SheetConfig, field: MappedField): string | undefined => {
+  const index = fieldIndex(config, field);
+  return index >= 0 ? row[index] : undefined;
+};
+
+/**
+ * Fingerprint of the mapped cells of a row. Any edit to a mapped cell changes it.
+ */
+export const rowVersion = (row: string[], config: SheetConfig): string =>
+  MAPPED_FIELDS.map(field => readCell(row, config, field) ?? '').join('\u241F');
+
+/**
+ * Turn one sheet row into a Project using the configured mapping.
+ */
+export const parseProjectRow = (row: string[], config: SheetConfig): Project => {
+  const cell = (field: MappedField) => readCell(row, config, field);
+
+  let statusRaw = cell('status');
+  if (statusRaw === 'Archive 🗄️') statusRaw = ProjectStatus.ARCHIVED;
+
+  return {
+    id: (cell('id') || '').trim(),
+    name: cell('name') || 'Untitled Project',
+    links: cell('links') || 'No Link',
+    lastTouched: safeParseDate(cell('lastTouched')),
+    status: (statusRaw as ProjectStatus) || ProjectStatus.NEW,
+    owner: cell('owner') || '',
+    dueDate: parseDueDate(cell('dueDate')),
+    tags: cell('tags') || '',
+    version: rowVersion(row, config),
+  };
+};
+
+/**
+ * Lay out field values as a full row (for appends); unmapped cells stay empty.
+ */
+export const buildRow = (config: SheetConfig, values: Partial<Record<MappedField, string>>): string[] => {
+  const row: string[] = new Array(columnToIndex(lastMappedColumn(config)) + 1).fill('');
+  for (const field of MAPPED_FIELDS) {
+    const index = fieldIndex(config, field);
+    const value = values[field];
+    if (index >= 0 && value !== undefined) row[index] = value;
+  }
+  return row;
+};
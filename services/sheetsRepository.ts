@@ -0,0 +1,446 @@
+import { HistoryEntry, Project, ProjectDetails, ProjectStatus } from '../types';
+import { diffProjects, filterProjects, generateProjectId, hasChangedSince } from './dataService';
+import { buildChangeEntries, buildCreationEntry, sortHistory } from './historyLog';
+import { ProjectConflictError, ProjectNotFoundError } from './repositoryErrors';
+import {
+  SheetConfig,
+  ID_HEADER,
+  MappedField,
+  SheetMappingError,
+  ProjectIdError,
+  findProjectIdProblems,
+  loadSheetConfig,
+  saveSheetConfig,
+  validateHeaderRow,
+  captureHeaders,
+  parseProjectRow,
+  readCell,
+  buildRow,
+  fieldIndex,
+  lastMappedColumn,
+  quoteSheetName,
+} from './sheetConfig';
+import type { BulkWriteResult, ProjectRepository, WriteOptions } from './projectRepository';
+
+const cellRange = (config: SheetConfig, field: MappedField, row: string) =>
+  `${quoteSheetName(config.sheetName)}!${config.columns[field].column.toUpperCase()}${row}`;
+
+// Fields of a change set that are actually kept in the sheet
+const mappedFieldsOf = (config: SheetConfig, values: Partial<Record<MappedField, string>>): MappedField[] =>
+  (Object.keys(values) as MappedField[]).filter(field => fieldIndex(config, field) >= 0);
+
+/**
+ * Build batchUpdate entries for the given fields of one row, skipping unmapped fields.
+ */
+const buildCellUpdates = (config: SheetConfig, row: string, values: Partial<Record<MappedField, string>>) => {
+  return mappedFieldsOf(config, values)
+    .map(field => ({ range: cellRange(config, field, row), values: [[values[field]]] }));
+};
+
+/**
+ * List the tabs of a spreadsheet for the settings screen.
+ */
+export const listSheetTabs = async (spreadsheetId: string): Promise<string[]> => {
+  const response = await window.gapi.client.sheets.spreadsheets.get({
+    spreadsheetId,
+    fields: 'sheets.properties.title',
+  });
+  return (response.result.sheets || []).map((s: any) => s.properties.title);
+};
+
+/**
+ * Read row 1 of a tab so the settings screen can offer its headers.
+ */
+export const readHeaderRow = async (spreadsheetId: string, sheetName: string): Promise<string[]> => {
+  const response = await window.gapi.client.sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: `${quoteSheetName(sheetName)}!1:1`,
+    majorDimension: 'ROWS',
+  });
+  return response.result.values?.[0] || [];
+};
+
+// Projects as of the last fetch or write; the default base for conflict checks
+let lastFetched = new Map<string, Project>();
+
+const readRows = async (config: SheetConfig): Promise<string[][]> => {
+  try {
+    const range = `${quoteSheetName(config.sheetName)}!A1:${lastMappedColumn(config)}`;
+
+    const response = await window.gapi.client.sheets.spreadsheets.values.get({
+      spreadsheetId: config.spreadsheetId,
+      range: range,
+      majorDimension: 'ROWS',
+      valueRenderOption: 'FORMATTED_VALUE',
+    });
+
+    return response.result.values || [];
+  } catch (error: any) {
+    console.error("Error fetching projects:", error);
+    throw new Error("Failed to fetch data from Google Sheets");
+  }
+};
+
+/**
+ * Read and parse every project row. Never writes: rows that cannot be told
+ * apart by ID are refused until the user runs assignProjectIds.
+ */
+const loadProjects = async (config: SheetConfig): Promise<Project[]> => {
+  const rows = await readRows(config);
+
+  // Refuse to guess when the header row no longer matches the mapping
+  const header = rows[0] || [];
+  const issues = validateHeaderRow(header, config);
+  if (issues.length > 0) {
+    throw new SheetMappingError(issues);
+  }
+
+  const idProblems = findProjectIdProblems(rows, config);
+  if (idProblems) {
+    throw new ProjectIdError(idProblems, config);
+  }
+
+  // Columns read for the first time are checked against today's headers from now on
+  const captured = captureHeaders(header, config);
+  if (captured) saveSheetConfig(captured);
+
+  return rows.slice(1)
+    .filter(row => row.some(cell => cell && cell.trim()))
+    .map(row => parseProjectRow(row, config));
+};
+
+/**
+ * One-time migration for sheets from before the ID column, or with rows
+ * added by hand: heads the ID column and gives every row without an ID of
+ * its own a new one. Refuses a column that already holds something else.
+ */
+export const assignProjectIds = async (): Promise<void> => {
+  const config = loadSheetConfig();
+  const rows = await readRows(config);
+  const problems = findProjectIdProblems(rows, config);
+  if (!problems) return;
+  if (!problems.migratable) {
+    throw new ProjectIdError(problems, config);
+  }
+
+  const data = [...problems.missing, ...problems.duplicates]
+    .map(row => ({ range: cellRange(config, 'id', row.toString()), values: [[generateProjectId()]] }));
+  if (!problems.claimed) {
+    data.push({ range: cellRange(config, 'id', '1'), values: [[ID_HEADER]] });
+  }
+
+  try {
+    await window.gapi.client.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: config.spreadsheetId,
+      resource: { valueInputOption: 'RAW', data }
+    });
+  } catch (error: any) {
+    console.error("Error assigning project IDs:", error);
+    throw new Error("Failed to assign project IDs in Google Sheets");
+  }
+};
+
+const fetchProjects = async (): Promise<Project[]> => {
+  const projects = await loadProjects(loadSheetConfig());
+  lastFetched = new Map(projects.map(p => [p.id, p]));
+  return projects;
+};
+
+const HISTORY_HEADER = ['Project ID', 'Timestamp', 'Actor', 'Field', 'Old Value', 'New Value'];
+
+// Spreadsheet/tab pair whose History tab is known to exist this session
+let historyTabReady: string | null = null;
+
+const ensureHistoryTab = async (config: SheetConfig) => {
+  const key = `${config.spreadsheetId}/${config.historySheetName}`;
+  if (historyTabReady === key) return;
+
+  const tabs = await listSheetTabs(config.spreadsheetId);
+  if (!tabs.includes(config.historySheetName)) {
+    await window.gapi.client.sheets.spreadsheets.batchUpdate({
+      spreadsheetId: config.spreadsheetId,
+      resource: { requests: [{ addSheet: { properties: { title: config.historySheetName } } }] }
+    });
+    await window.gapi.client.sheets.spreadsheets.values.update({
+      spreadsheetId: config.spreadsheetId,
+      range: `${quoteSheetName(config.historySheetName)}!A1:F1`,
+      valueInputOption: 'RAW',
+      resource: { values: [HISTORY_HEADER] }
+    });
+  }
+  historyTabReady = key;
+};
+
+const appendHistory = async (config: SheetConfig, entries: HistoryEntry[]) => {
+  if (entries.length === 0) return;
+  try {
+    await ensureHistoryTab(config);
+    await window.gapi.client.sheets.spreadsheets.values.append({
+      spreadsheetId: config.spreadsheetId,
+      range: `${quoteSheetName(config.historySheetName)}!A:F`,
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      resource: { values: entries.map(e => [e.projectId, e.timestamp, e.actor, e.field, e.oldValue, e.newValue]) }
+    });
+  } catch (error: any) {
+    // The project write already landed; a missing log line must not report it as failed
+    console.warn("Failed to append project history", error);
+  }
+};
+
+const fetchHistory = async (projectId: string): Promise<HistoryEntry[]> => {
+  const config = loadSheetConfig();
+  let rows: string[][];
+  try {
+    const response = await window.gapi.client.sheets.spreadsheets.values.get({
+      spreadsheetId: config.spreadsheetId,
+      range: `${quoteSheetName(config.historySheetName)}!A2:F`,
+      majorDimension: 'ROWS',
+    });
+    rows = response.result.values || [];
+  } catch (error: any) {
+    // The tab is only created by the first write, so a missing range means no history yet
+    if (error?.status === 400) return [];
+    console.error("Error fetching history:", error);
+    throw new Error("Failed to load project history");
+  }
+
+  return sortHistory(rows
+    .filter(row => (row[0] || '').trim() === projectId)
+    .map(row => ({
+      projectId: row[0],
+      timestamp: row[1] || '',
+      actor: row[2] || '',
+      field: row[3] || '',
+      oldValue: row[4] || '',
+      newValue: row[5] || '',
+    })));
+};
+
+const findRowIndex = (rows: string[][], config: SheetConfig, id: string): number =>
+  rows.findIndex((row, i) => i > 0 && (readCell(row, config, 'id') || '').trim() === id);
+
+/**
+ * Locate a project's current row by its ID. Looked up at write time so
+ * sorting or inserting rows in the sheet never redirects a write.
+ */
+const locateProject = async (config: SheetConfig, id: string): Promise<{ row: string, cells: string[] }> => {
+  const rows = await readRows(config);
+  const index = findRowIndex(rows, config, id);
+  if (index < 0) {
+    throw new ProjectNotFoundError(id);
+  }
+  return { row: (index + 1).toString(), cells: rows[index] };
+};
+
+/**
+ * Sheets may reformat what it stores, so rebuild a row from the values a
+ * batchUpdate echoed back. `offset` is the index of this row's first response.
+ */
+const applyEchoedValues = (
+  config: SheetConfig,
+  cells: string[],
+  changes: Partial<Record<MappedField, string>>,
+  responses: any[],
+  offset: number
+): string[] => {
+  const stored = [...cells];
+  mappedFieldsOf(config, changes).forEach((field, i) => {
+    const echoed = responses[offset + i]?.updatedData?.values?.[0]?.[0];
+    stored[fieldIndex(config, field)] = echoed ?? changes[field] ?? '';
+  });
+  return stored;
+};
+
+/**
+ * Write some fields of one project after checking nobody changed its row
+ * since the caller's version. Updates the snapshot with what the sheet stored.
+ */
+const writeProjectFields = async (
+  id: string,
+  changes: Partial<Record<MappedField, string>>,
+  options: WriteOptions = {},
+  failureMessage: string
+): Promise<Project> => {
+  const config = loadSheetConfig();
+  const { row, cells } = await locateProject(config, id);
+  const current = parseProjectRow(cells, config);
+  const base = options.base ?? lastFetched.get(id);
+
+  if (!options.force && base && hasChangedSince(base, current)) {
+    throw new ProjectConflictError({ ...base, ...changes } as Project, current, base);
+  }
+
+  const data = buildCellUpdates(config, row, changes);
+  let response: any;
+  try {
+    response = await window.gapi.client.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: config.spreadsheetId,
+      resource: {
+        valueInputOption: 'USER_ENTERED',
+        data,
+        includeValuesInResponse: true,
+        responseValueRenderOption: 'FORMATTED_VALUE',
+      }
+    });
+  } catch (error: any) {
+    console.error(failureMessage, error);
+    throw new Error(failureMessage);
+  }
+
+  const stored = applyEchoedValues(config, cells, changes, response?.result?.responses || [], 0);
+  const after = parseProjectRow(stored, config);
+  lastFetched.set(id, after);
+  await appendHistory(config, buildChangeEntries(current, after));
+  return after;
+};
+
+const updateProjectStatus = async (id: string, newStatus: ProjectStatus, options?: WriteOptions): Promise<Project> => {
+    const now = new Date().toISOString();
+    return writeProjectFields(id, { lastTouched: now, status: newStatus }, options, "Failed to update status in Google Sheets");
+};
+
+const updateProjectDetails = async (id: string, updates: ProjectDetails, options?: WriteOptions): Promise<Project> => {
+  return writeProjectFields(id, {
+    name: updates.name,
+    links: updates.links,
+    owner: updates.owner,
+    dueDate: updates.dueDate,
+    tags: updates.tags,
+  }, options, "Failed to update project details");
+};
+
+// Every editable field of a project, as written by a full save
+const projectFieldValues = (project: Project): Partial<Record<MappedField, string>> => ({
+  name: project.name,
+  links: project.links,
+  lastTouched: project.lastTouched,
+  status: project.status,
+  owner: project.owner || '',
+  dueDate: project.dueDate || '',
+  tags: project.tags,
+});
+
+const saveProject = async (project: Project, options?: WriteOptions): Promise<Project> => {
+  return writeProjectFields(project.id, projectFieldValues(project), options, "Failed to save project to Google Sheets");
+};
+
+/**
+ * Save many projects with a single read and a single batchUpdate. Projects
+ * that are missing or changed since the last fetch are skipped and reported.
+ * Only the cells a project differs in are written, so adding a tag neither
+ * touches the project nor overwrites someone's edit to another column.
+ */
+const saveProjects = async (projects: Project[]): Promise<BulkWriteResult> => {
+  const config = loadSheetConfig();
+  const rows = await readRows(config);
+  const result: BulkWriteResult = { saved: [], failed: [] };
+  const writes: { current: Project, row: string, cells: string[], changes: Partial<Record<MappedField, string>> }[] = [];
+
+  for (const project of projects) {
+    const index = findRowIndex(rows, config, project.id);
+    if (index < 0) {
+      result.failed.push({ projectId: project.id, message: new ProjectNotFoundError(project.id).message });
+      continue;
+    }
+    const current = parseProjectRow(rows[index], config);
+    const base = lastFetched.get(project.id);
+    if (base && hasChangedSince(base, current)) {
+      result.failed.push({ projectId: project.id, message: new ProjectConflictError(project, current, base).message });
+      continue;
+    }
+    const values = projectFieldValues(project);
+    const changes: Partial<Record<MappedField, string>> = {};
+    diffProjects(current, project).forEach(field => { changes[field] = values[field]; });
+    if (Object.keys(changes).length === 0) {
+      result.saved.push(current);
+      continue;
+    }
+    writes.push({ current, row: (index + 1).toString(), cells: rows[index], changes });
+  }
+
+  if (writes.length === 0) return result;
+
+  let response: any;
+  try {
+    response = await window.gapi.client.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: config.spreadsheetId,
+      resource: {
+        valueInputOption: 'USER_ENTERED',
+        data: writes.flatMap(w => buildCellUpdates(config, w.row, w.changes)),
+        includeValuesInResponse: true,
+        responseValueRenderOption: 'FORMATTED_VALUE',
+      }
+    });
+  } catch (error: any) {
+    console.error("Bulk save failed", error);
+    writes.forEach(w => result.failed.push({ projectId: w.current.id, message: "Failed to save projects to Google Sheets" }));
+    return result;
+  }
+
+  const responses = response?.result?.responses || [];
+  const history: HistoryEntry[] = [];
+  let offset = 0;
+  for (const w of writes) {
+    const after = parseProjectRow(applyEchoedValues(config, w.cells, w.changes, responses, offset), config);
+    offset += mappedFieldsOf(config, w.changes).length;
+    lastFetched.set(w.current.id, after);
+    history.push(...buildChangeEntries(w.current, after));
+    result.saved.push(after);
+  }
+  await appendHistory(config, history);
+  return result;
+};
+
+const createProject = async (project: ProjectDetails, id: string = generateProjectId()): Promise<void> => {
+  const config = loadSheetConfig();
+  const created: Project = { ...project, id, lastTouched: new Date().toISOString(), status: ProjectStatus.NEW };
+  try {
+    const range = `${quoteSheetName(config.sheetName)}!A:${lastMappedColumn(config)}`;
+    const rowData = buildRow(config, {
+      id,
+      name: created.name,
+      links: created.links,
+      lastTouched: created.lastTouched,
+      status: created.status,
+      owner: project.owner,
+      dueDate: project.dueDate,
+      tags: created.tags,
+    });
+    await window.gapi.client.sheets.spreadsheets.values.append({
+      spreadsheetId: config.spreadsheetId,
+      range: range,
+      valueInputOption: 'USER_ENTERED',
+      insertDataOption: 'INSERT_ROWS',
+      resource: { values: [rowData] }
+    });
+  } catch (error: any) {
+    throw new Error("Failed to create project in Google Sheets");
+  }
+  await appendHistory(config, [buildCreationEntry(created)]);
+};
+
+/**
+ * Perform a fuzzy search across the entire spreadsheet for the AI tool
+ */
+const searchProjects = async (query: string) => {
+  try {
+    // Reads without replacing the snapshot, so searches never hide a pending conflict
+    return filterProjects(await loadProjects(loadSheetConfig()), query);
+  } catch (error) {
+    console.error("Tool search error:", error);
+    return [];
+  }
+};
+
+export const createSheetsRepository = (): ProjectRepository => ({
+  backend: 'sheets',
+  fetchProjects,
+  searchProjects,
+  updateProjectStatus,
+  updateProjectDetails,
+  saveProject,
+  saveProjects,
+  createProject,
+  fetchHistory,
+});
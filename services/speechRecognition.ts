@@ -0,0 +1,100 @@
+/**
+ * The browser's own speech recognition, for transcribing without uploading
+ * audio to the assistant function. Chrome and Safari still run it on their
+ * vendor's servers unless the device has an offline model.
+ */
+
+// Not yet in TypeScript's DOM types; just the parts used here
+interface BrowserRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => BrowserRecognition;
+
+export interface RecognitionSession {
+  /** The final transcript once recognition ends; empty when nothing was heard, null when aborted */
+  result: Promise<string | null>;
+  /** Stop listening and keep what was heard */
+  stop(): void;
+  /** Stop listening and discard it */
+  abort(): void;
+}
+
+/**
+ * Recognition failed, e.g. 'not-allowed' for a blocked microphone or
+ * 'network' when the browser's service is unreachable.
+ */
+export class SpeechRecognitionError extends Error {
+  code: string;
+
+  constructor(code: string) {
+    super(`Speech recognition failed: ${code}`);
+    this.name = 'SpeechRecognitionError';
+    this.code = code;
+  }
+}
+
+// Errors that only mean nothing usable was said
+const QUIET_ERRORS = ['no-speech', 'aborted'];
+
+const recognitionConstructor = (): RecognitionConstructor | undefined =>
+  (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export const isSpeechRecognitionAvailable = (): boolean => !!recognitionConstructor();
+
+/**
+ * Listen until stopped, reporting the transcript so far as it changes.
+ */
+export const startRecognition = (onInterim?: (text: string) => void): RecognitionSession => {
+  const Recognition = recognitionConstructor();
+  if (!Recognition) throw new SpeechRecognitionError('not-supported');
+
+  const recognition = new Recognition();
+  recognition.lang = navigator.language || 'en-US';
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  let finalText = '';
+  let interimText = '';
+  let failure: SpeechRecognitionError | null = null;
+  let aborted = false;
+
+  const result = new Promise<string | null>((resolve, reject) => {
+    recognition.onresult = (event) => {
+      interimText = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const transcript = event.results[i][0].transcript;
+        if (event.results[i].isFinal) finalText += transcript;
+        else interimText += transcript;
+      }
+      onInterim?.(`${finalText}${interimText}`.trim());
+    };
+    recognition.onerror = (event) => {
+      if (!QUIET_ERRORS.includes(event.error)) failure = new SpeechRecognitionError(event.error);
+    };
+    // Stopping early can leave the last words as interim results
+    recognition.onend = () => {
+      if (aborted) resolve(null);
+      else if (failure) reject(failure);
+      else resolve(`${finalText}${interimText}`.trim());
+    };
+  });
+
+  recognition.start();
+  return {
+    result,
+    stop: () => recognition.stop(),
+    abort: () => {
+      aborted = true;
+      recognition.abort();
+    },
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * How the assistant's answers are read aloud. Voices differ per device and
+ * browser, so these are stored per browser.
+ */
+
+export interface SpeechSettings {
+  voiceURI: string;     // Empty to pick an English voice automatically
+  rate: number;         // 0.5 to 2, 1 is normal speed
+  pitch: number;        // 0 to 2, 1 is normal pitch
+  autoSpeak: boolean;   // Read answers to voice messages aloud
+  onDeviceRecognition: boolean; // Transcribe with the browser's speech recognition where it has one
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voiceURI: '',
+  rate: 1,
+  pitch: 1,
+  autoSpeak: true,
+  onDeviceRecognition: false,
+};
+
+const SPEECH_STORAGE_KEY = 'project_watch_speech_settings';
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  const stored = localStorage.getItem(SPEECH_STORAGE_KEY);
+  if (!stored) return DEFAULT_SPEECH_SETTINGS;
+
+  try {
+    return { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Failed to parse stored speech settings", e);
+    localStorage.removeItem(SPEECH_STORAGE_KEY);
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(SPEECH_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { chunkForSpeech, markdownToSpeech } from './speechText';
+
+describe('markdownToSpeech', () => {
+  it('drops Markdown syntax and reads links by their text', () => {
+    expect(markdownToSpeech('## Status\n\n**Billing** is _late_, see [the board](https://example.com/board).'))
+      .toBe('Status. Billing is late, see the board.');
+  });
+
+  it('ends list items and table rows as sentences', () => {
+    expect(markdownToSpeech('- Alpha\n- Beta\n\n| Name | Days |\n| --- | --- |\n| Alpha | 3 |'))
+      .toBe('Alpha. Beta. Name, Days. Alpha, 3.');
+  });
+
+  it('removes emoji and bare URLs', () => {
+    expect(markdownToSpeech('Done ✅ at https://example.com/x')).toBe('Done at link.');
+  });
+});
+
+describe('chunkForSpeech', () => {
+  it('speaks one sentence per piece', () => {
+    expect(chunkForSpeech('Two projects are stale. Billing needs a touch!'))
+      .toEqual(['Two projects are stale.', 'Billing needs a touch!']);
+  });
+
+  it('does not split at a decimal point', () => {
+    expect(chunkForSpeech('Alpha is 2.5 weeks late. Beta is fine.'))
+      .toEqual(['Alpha is 2.5 weeks late.', 'Beta is fine.']);
+  });
+
+  it('skips pieces with nothing to say', () => {
+    expect(chunkForSpeech('---\n\n🎉')).toEqual([]);
+  });
+
+  it('keeps every piece within the utterance limit', () => {
+    const sentence = Array.from({ length: 30 }, (_, i) => `clause number ${i} goes here`).join(', ');
+    const pieces = chunkForSpeech(sentence);
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach(piece => expect(piece.length).toBeLessThanOrEqual(200));
+    expect(pieces.join(' ')).toBe(`${sentence}.`);
+  });
+
+  it('splits an over-long clause at words', () => {
+    const pieces = chunkForSpeech('word '.repeat(100));
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach(piece => expect(piece.length).toBeLessThanOrEqual(200));
+  });
+});
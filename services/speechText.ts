@@ -0,0 +1,76 @@
+/**
+ * Turn model answers into something worth listening to: Markdown syntax,
+ * links and emoji removed, then cut into sentence-sized pieces. Browsers
+ * stop long utterances part way, and short ones can be skipped between.
+ */
+
+// Longest piece handed to the speech engine in one utterance
+const MAX_UTTERANCE_LENGTH = 200;
+
+const EMOJI = /[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu;
+
+// Lines that stand on their own (headings, list items, table rows) need a
+// full stop, or the voice runs them together
+const endSentence = (line: string) => (/[.!?:;,]$/.test(line) ? line : `${line}.`);
+
+/**
+ * The text as it should be spoken, on one line.
+ */
+export const markdownToSpeech = (markdown: string): string =>
+  markdown
+    .replace(/```[^\n]*\n?([\s\S]*?)```/g, '$1')        // Code fences, keeping the code
+    .replace(/`([^`]*)`/g, '$1')                           // Inline code
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')              // Images, by their alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')               // Links, by their text
+    .replace(/https?:\/\/\S+/g, 'link')
+    .replace(/<\/?[a-z][^>]*>/gi, '')                      // HTML tags
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')                 // Bold and strikethrough
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2') // Italics
+    .replace(EMOJI, '')
+    .split('\n')
+    .map(line => line
+      .replace(/^\s{0,3}(#{1,6}|>+)\s*/, '')              // Headings and quotes
+      .replace(/^\s*([-*+•]|\d+[.)])\s+/, '')              // List markers
+      .replace(/^\s*\|?[\s:|-]+\|[\s:|-]*$/, '')           // Table separator rows
+      .replace(/^\s*([-*_]\s*){3,}$/, '')                  // Horizontal rules
+      .replace(/\s*\|\s*/g, ', ')                          // Table cells
+      .replace(/^[,\s]+|[,\s]+$/g, '')
+      .replace(/[*_#]+/g, ' ')                             // Stray markers
+      .replace(/\s+/g, ' ')
+      .trim())
+    .filter(Boolean)
+    .map(endSentence)
+    .join(' ');
+
+// Join parts into pieces no longer than the limit
+const pack = (parts: string[]): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const part of parts) {
+    if (current && current.length + part.length + 1 > MAX_UTTERANCE_LENGTH) {
+      pieces.push(current);
+      current = part;
+    } else {
+      current = current ? `${current} ${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Split an over-long sentence at clause breaks, and over-long clauses at words
+const splitLong = (sentence: string): string[] => {
+  if (sentence.length <= MAX_UTTERANCE_LENGTH) return [sentence];
+  return pack(sentence.split(/(?<=[,;:])\s+/).flatMap(clause =>
+    clause.length > MAX_UTTERANCE_LENGTH ? pack(clause.split(/\s+/)) : [clause]));
+};
+
+/**
+ * Speakable pieces of a Markdown answer, one sentence (or less) each.
+ */
+export const chunkForSpeech = (markdown: string): string[] =>
+  // A full stop inside a number such as 2.5 does not end a sentence
+  (markdownToSpeech(markdown).match(/(?:[^.!?]|[.!?](?=[\w.]))+(?:[.!?]+["')\]]*|$)/g) || [])
+    .map(s => s.trim())
+    .filter(s => /[\p{L}\p{N}]/u.test(s))
+    .flatMap(splitLong);
@@ -0,0 +1,118 @@
+/**
+ * Voice activity detection on a live microphone stream, for hands-free
+ * conversation: reports when someone starts talking and when they have gone
+ * quiet long enough to count as the end of a turn.
+ */
+
+export interface VoiceActivitySettings {
+  minSpeechMs: number;      // Sustained sound before it counts as speech
+  silenceMs: number;        // Quiet after speech that ends the utterance
+  thresholdScale: number;   // Raise to need louder speech, e.g. over the assistant's own voice
+}
+
+export interface VoiceActivityHandlers {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface VoiceActivityDetector {
+  configure(settings: Partial<VoiceActivitySettings>): void;
+  /** Forget any utterance in progress, e.g. when a new turn starts */
+  reset(): void;
+  readonly speaking: boolean;
+  stop(): void;
+}
+
+export const DEFAULT_VOICE_ACTIVITY: VoiceActivitySettings = {
+  minSpeechMs: 150,
+  silenceMs: 1200,
+  thresholdScale: 1,
+};
+
+const FRAME_MS = 50;
+// RMS level below which nothing counts as speech, however quiet the room
+const MIN_THRESHOLD = 0.015;
+// Speech has to stand this far above the background noise
+const NOISE_MARGIN = 3;
+// How quickly the noise estimate follows the room, per quiet frame
+const NOISE_SMOOTHING = 0.05;
+
+const rmsLevel = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+/**
+ * Watch the stream's loudness against a running estimate of background
+ * noise. Polls on a timer rather than animation frames, which stop while
+ * the page is hidden. The stream itself is left running on stop.
+ */
+export const createVoiceActivityDetector = (
+  stream: MediaStream,
+  handlers: VoiceActivityHandlers,
+  initial: Partial<VoiceActivitySettings> = {}
+): VoiceActivityDetector => {
+  let settings = { ...DEFAULT_VOICE_ACTIVITY, ...initial };
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  let noiseFloor = MIN_THRESHOLD / NOISE_MARGIN;
+  let loudMs = 0;
+  let quietMs = 0;
+  let speaking = false;
+
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples);
+    const level = rmsLevel(samples);
+    const threshold = Math.max(MIN_THRESHOLD, noiseFloor * NOISE_MARGIN) * settings.thresholdScale;
+
+    if (level > threshold) {
+      loudMs += FRAME_MS;
+      quietMs = 0;
+      if (!speaking && loudMs >= settings.minSpeechMs) {
+        speaking = true;
+        handlers.onSpeechStart?.();
+      }
+      return;
+    }
+
+    loudMs = 0;
+    noiseFloor += (level - noiseFloor) * NOISE_SMOOTHING;
+    if (speaking) {
+      quietMs += FRAME_MS;
+      if (quietMs >= settings.silenceMs) {
+        speaking = false;
+        quietMs = 0;
+        handlers.onSpeechEnd?.();
+      }
+    }
+  };
+
+  // Autoplay rules may start the context suspended until a user gesture
+  if (context.state === 'suspended') context.resume().catch(() => {});
+  const timer = setInterval(tick, FRAME_MS);
+
+  return {
+    configure(next) {
+      settings = { ...settings, ...next };
+    },
+    reset() {
+      speaking = false;
+      loudMs = 0;
+      quietMs = 0;
+    },
+    get speaking() {
+      return speaking;
+    },
+    stop() {
+      clearInterval(timer);
+      source.disconnect();
+      context.close().catch(() => {});
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectStatus, RotLevel } from '../types';
+import { analyzeProjects } from './dataService';
+import { DEFAULT_ROT_POLICY } from './rotPolicy';
+import { describeRotReport, parseVoiceCommand, voiceCommandAction } from './voiceCommands';
+
+// Touched 7, 14, 2 and 40 days before the 19th: neglected, abandoned, fresh and archived
+const projects = analyzeProjects([
+  { id: 'p1', name: 'Billing', lastTouched: '2026-10-12T12:00:00.000Z', status: ProjectStatus.ACTIVE, links: '', tags: '' },
+  { id: 'p2', name: 'Onboarding', lastTouched: '2026-10-05T12:00:00.000Z', status: ProjectStatus.EXTENDED, links: '', tags: '' },
+  { id: 'p3', name: 'Launch', lastTouched: '2026-10-17T12:00:00.000Z', status: ProjectStatus.NEW, links: '', tags: '' },
+  { id: 'p4', name: 'Old site', lastTouched: '2026-09-09T12:00:00.000Z', status: ProjectStatus.ARCHIVED, links: '', tags: '' },
+], DEFAULT_ROT_POLICY, new Date('2026-10-19T12:00:00.000Z'));
+
+describe('parseVoiceCommand', () => {
+  it.each([
+    ['Touch the Billing project.', { kind: 'touch', project: 'billing' }],
+    ['please touch launch', { kind: 'touch', project: 'launch' }],
+    ['Mark Alpha as done', { kind: 'status', project: 'alpha', status: 'completed' }],
+    ['move the beta project to active', { kind: 'status', project: 'beta', status: 'active' }],
+    ['archive beta', { kind: 'archive', project: 'beta' }],
+    ['set beta to archived', { kind: 'archive', project: 'beta' }],
+    ["What's neglected?", { kind: 'rotReport', levels: [RotLevel.NEGLECTED] }],
+    ['which projects are abandoned', { kind: 'rotReport', levels: [RotLevel.ABANDONED] }],
+    ['show stale projects', { kind: 'rotReport', levels: [RotLevel.NEGLECTED, RotLevel.ABANDONED] }],
+  ])('reads "%s"', (transcript, command) => {
+    expect(parseVoiceCommand(transcript)).toEqual(command);
+  });
+
+  it.each(['how is alpha doing', 'touch', ''])('leaves "%s" to the assistant', transcript => {
+    expect(parseVoiceCommand(transcript)).toBeNull();
+  });
+});
+
+describe('voiceCommandAction', () => {
+  it('touches a project by extending it', () => {
+    expect(voiceCommandAction({ kind: 'touch', project: 'billing' }, projects))
+      .toEqual({ kind: 'status', projectId: 'p1', projectName: 'Billing', status: ProjectStatus.EXTENDED });
+  });
+
+  it('resolves spoken status words', () => {
+    expect(voiceCommandAction({ kind: 'status', project: 'launch', status: 'completed' }, projects))
+      .toMatchObject({ projectId: 'p3', status: ProjectStatus.COMPLETED });
+  });
+
+  it('throws when the project does not resolve', () => {
+    expect(() => voiceCommandAction({ kind: 'archive', project: 'payroll' }, projects)).toThrow('No project matches');
+  });
+});
+
+describe('describeRotReport', () => {
+  it('lists open projects at the levels asked for, longest untouched first', () => {
+    expect(describeRotReport([RotLevel.NEGLECTED, RotLevel.ABANDONED], projects))
+      .toBe('2 projects are stale: Onboarding (14 days), Billing (7 days).');
+    expect(describeRotReport([RotLevel.ABANDONED], projects)).toBe('One project is abandoned: Onboarding (14 days).');
+  });
+
+  it('says when nothing matches', () => {
+    expect(describeRotReport([RotLevel.NEGLECTED], projects.slice(2))).toBe('Nothing is neglected right now.');
+  });
+});
@@ -0,0 +1,92 @@
+import { ProjectAnalysis, ProjectStatus, RotLevel } from '../types';
+import { effectiveRotLevel } from './dataService';
+import { AssistantAction, resolveAssistantAction } from './assistantActions';
+
+/**
+ * Quick spoken commands handled in the browser without a model call:
+ *
+ * - "touch <project>": touched today, as the card's refresh button does
+ * - "set/mark/move <project> to/as <status>"
+ * - "archive <project>"
+ * - "what's neglected" / "which projects are abandoned" / "what's stale"
+ *
+ * Anything else, or a command whose project or status does not resolve,
+ * goes to the assistant as usual.
+ */
+
+export type VoiceCommand =
+  | { kind: 'touch'; project: string }
+  | { kind: 'status'; project: string; status: string }
+  | { kind: 'archive'; project: string }
+  | { kind: 'rotReport'; levels: RotLevel[] };
+
+// Spoken words for statuses the status names do not start with
+const STATUS_SYNONYMS: Record<string, string> = {
+  done: 'completed',
+  finished: 'completed',
+  complete: 'completed',
+  archive: 'archived',
+};
+
+const REPORT_LEVELS: Record<string, RotLevel[]> = {
+  neglected: [RotLevel.NEGLECTED],
+  abandoned: [RotLevel.ABANDONED],
+  stale: [RotLevel.NEGLECTED, RotLevel.ABANDONED],
+};
+
+// "the billing project" -> "billing"
+const projectName = (words: string) => words.replace(/^the\s+/, '').replace(/\s+project$/, '').trim();
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = transcript.toLowerCase().replace(/[.!?]+$/, '').replace(/\s+/g, ' ').trim();
+
+  const report = text.match(/^(?:what's|what is|what are|which projects are|show me|show|list)(?: the)? (neglected|abandoned|stale)(?: projects)?$/);
+  if (report) return { kind: 'rotReport', levels: REPORT_LEVELS[report[1]] };
+
+  const touch = text.match(/^(?:please )?touch (.+)$/);
+  if (touch) return { kind: 'touch', project: projectName(touch[1]) };
+
+  const archive = text.match(/^(?:please )?archive (.+)$/);
+  if (archive) return { kind: 'archive', project: projectName(archive[1]) };
+
+  const status = text.match(/^(?:please )?(?:set|mark|move|change) (.+?) (?:to|as) (\w+)$/);
+  if (status) {
+    const word = STATUS_SYNONYMS[status[2]] || status[2];
+    return word === 'archived'
+      ? { kind: 'archive', project: projectName(status[1]) }
+      : { kind: 'status', project: projectName(status[1]), status: word };
+  }
+
+  return null;
+};
+
+/**
+ * The change a write command makes. Throws, like the assistant's own
+ * actions, when the project or status does not resolve.
+ */
+export const voiceCommandAction = (
+  command: Exclude<VoiceCommand, { kind: 'rotReport' }>,
+  projects: ProjectAnalysis[]
+): AssistantAction => {
+  const status = command.kind === 'touch' ? ProjectStatus.EXTENDED
+    : command.kind === 'archive' ? ProjectStatus.ARCHIVED
+    : command.status;
+  return resolveAssistantAction('updateProjectStatus', { project: command.project, status }, projects);
+};
+
+/**
+ * A spoken answer listing the open projects at the given rot levels, worst first.
+ */
+export const describeRotReport = (levels: RotLevel[], projects: ProjectAnalysis[]): string => {
+  const label = levels.length > 1 ? 'stale' : levels[0].toLowerCase();
+  const matching = projects
+    .filter(a => a.project.status !== ProjectStatus.COMPLETED && a.project.status !== ProjectStatus.ARCHIVED)
+    .filter(a => levels.includes(effectiveRotLevel(a)))
+    .sort((a, b) => b.daysSinceTouch - a.daysSinceTouch);
+
+  if (matching.length === 0) return `Nothing is ${label} right now.`;
+  const names = matching.map(a => `${a.project.name} (${a.daysSinceTouch} days)`).join(', ');
+  return matching.length === 1
+    ? `One project is ${label}: ${names}.`
+    : `${matching.length} projects are ${label}: ${names}.`;
+};
@@ -9,9 +9,15 @@ export enum ProjectStatus {
 }
 
 export enum RotLevel {
-  FRESH = 'Fresh',        // <= 5 days
-  NEGLECTED = 'Neglected', // > 5 days
-  ABANDONED = 'Abandoned'  // > 10 days
+  FRESH = 'Fresh',        // Within the neglected threshold
+  NEGLECTED = 'Neglected', // Past the neglected threshold (5 days by default)
+  ABANDONED = 'Abandoned'  // Past the abandoned threshold (10 days by default)
+}
+
+export enum DeadlineRisk {
+  ON_TRACK = 'On Track',
+  DUE_SOON = 'Due Soon',   // Due within the policy's due-soon window
+  OVERDUE = 'Overdue'
 }
 
 export interface Project {
@@ -22,12 +28,35 @@ export interface Project {
   links: string;       // Renamed from log to links
   tags: string;        // New field for Column G
   owner?: string;
+  dueDate?: string;    // YYYY-MM-DD, Column F
+  version?: string;    // Fingerprint of the stored row, used to detect concurrent edits
+}
+
+// Editable fields shared by the card edit form, the new project modal and the repositories
+export interface ProjectDetails {
+  name: string;
+  links: string;
+  tags: string;
+  owner: string;
+  dueDate: string;     // Empty when the project has no deadline
+}
+
+// One row of a project's activity log (the History tab for the Sheets backend)
+export interface HistoryEntry {
+  projectId: string;
+  timestamp: string;   // ISO Date string
+  actor: string;
+  field: string;       // A Project field, or 'created' / 'archived'
+  oldValue: string;
+  newValue: string;
 }
 
 export interface ProjectAnalysis {
   project: Project;
   daysSinceTouch: number;
   rotLevel: RotLevel;
+  deadlineRisk: DeadlineRisk | null; // Null without a due date, or once completed or archived
+  daysUntilDue: number | null;       // Negative when overdue
 }
 
 export interface AIInsight {
@@ -36,6 +65,14 @@ export interface AIInsight {
   priorityScore: number;
 }
 
+// Generated on request and cached until the project data changes
+export interface PortfolioInsights {
+  summary: string;
+  actionItems: string[];                 // Most urgent first
+  projects: Record<string, AIInsight>;   // By project ID; projects left out of the snapshot have none
+  generatedAt: string;                   // ISO Date string
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;